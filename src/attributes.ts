@@ -0,0 +1,79 @@
+import { execa } from "execa";
+import { createError } from "./errors";
+
+/**
+ * State of a git attribute: set (true), unset (false) or set to a value
+ */
+export type AttributeValue = boolean | string;
+
+/**
+ * Attributes used to commit the files: line endings and LFS
+ */
+const ATTRIBUTES = ["text", "eol", "filter"];
+
+/**
+ * Get the attributes of repository paths with git check-attr, which reads
+ * every .gitattributes file, .git/info/attributes and core.attributesFile
+ * Unspecified attributes are omitted
+ */
+export async function readPathAttributes(
+  paths: string[],
+  root: string,
+  env: Record<string, string | undefined>,
+): Promise<Map<string, Record<string, AttributeValue>>> {
+  const attributes = new Map<string, Record<string, AttributeValue>>(
+    paths.map((path) => [path, {}]),
+  );
+  if (paths.length === 0) {
+    return attributes;
+  }
+
+  const { stdout, stderr, exitCode } = await execa(
+    "git",
+    ["check-attr", "-z", "--stdin", ...ATTRIBUTES],
+    { cwd: root, env, input: paths.join("\0"), reject: false },
+  );
+  if (exitCode !== 0) {
+    throw createError(
+      "ENOFILES",
+      "Failed to read the git attributes of the files",
+      stderr,
+    );
+  }
+
+  // Each attribute is reported as path, attribute and value
+  const fields = stdout.split("\0");
+  for (let index = 0; index + 2 < fields.length; index += 3) {
+    const [path, name, value] = fields.slice(index, index + 3);
+    if (value === "unspecified") {
+      continue;
+    }
+    const pathAttributes = attributes.get(path) ?? {};
+    pathAttributes[name] =
+      value === "set" ? true : value === "unset" ? false : value;
+    attributes.set(path, pathAttributes);
+  }
+  return attributes;
+}
+
+/**
+ * Get how git converts the line endings of a file when adding it: "text"
+ * always normalizes them to LF, "auto" only if the file is detected as text
+ * Without a text attribute, core.autocrlf "true" or "input" enables "auto"
+ */
+export function getTextConversion(
+  attributes: Record<string, AttributeValue>,
+  autocrlf?: string,
+): "text" | "auto" | undefined {
+  if (attributes.text === false) {
+    return undefined;
+  }
+  if (attributes.text === "auto") {
+    return "auto";
+  }
+  // Setting eol implies text when text is unspecified
+  if (attributes.text === true || typeof attributes.eol === "string") {
+    return "text";
+  }
+  return autocrlf === "true" || autocrlf === "input" ? "auto" : undefined;
+}
@@ -0,0 +1,145 @@
+import { createPrivateKey, createSign, KeyObject } from "crypto";
+import { GitHubClient } from "./github";
+import { PluginConfig, RepoInfo, SemanticReleaseContext } from "./types";
+import { createError } from "./errors";
+import { getAuthToken } from "./utils";
+
+export interface AppCredentials {
+  appId: string;
+  privateKey: string;
+  installationId?: number;
+}
+
+/**
+ * Get GitHub App credentials from environment or config
+ */
+export function getAppCredentials(
+  env: Record<string, string | undefined>,
+  pluginConfig: Pick<
+    PluginConfig,
+    "githubAppId" | "githubAppPrivateKey" | "githubAppInstallationId"
+  >,
+): AppCredentials | undefined {
+  const appId = env.GITHUB_APP_ID || pluginConfig.githubAppId?.toString();
+  const privateKey =
+    env.GITHUB_APP_PRIVATE_KEY || pluginConfig.githubAppPrivateKey;
+  const installationId =
+    env.GITHUB_APP_INSTALLATION_ID || pluginConfig.githubAppInstallationId;
+
+  if (!appId && !privateKey) {
+    return undefined;
+  }
+
+  if (!appId || !privateKey) {
+    throw createError(
+      "EINVALIDCONFIG",
+      "GitHub App authentication requires both GITHUB_APP_ID and GITHUB_APP_PRIVATE_KEY (or githubAppId and githubAppPrivateKey in plugin config)",
+    );
+  }
+
+  if (installationId !== undefined && !/^\d+$/.test(String(installationId))) {
+    throw createError(
+      "EINVALIDCONFIG",
+      `GitHub App installation ID must be a number: ${installationId}`,
+    );
+  }
+
+  return {
+    appId,
+    // Keys stored in single-line secrets often have escaped newlines
+    privateKey: privateKey.replace(/\\n/g, "\n"),
+    installationId:
+      installationId !== undefined ? Number(installationId) : undefined,
+  };
+}
+
+/**
+ * Parse a GitHub App private key (PEM)
+ */
+export function parsePrivateKey(privateKey: string): KeyObject {
+  try {
+    return createPrivateKey(privateKey);
+  } catch (error: any) {
+    throw createError(
+      "EGHNOAUTH",
+      "GitHub App private key is not a valid PEM private key",
+      error.message,
+    );
+  }
+}
+
+/**
+ * Create a JSON Web Token authenticating as the GitHub App
+ */
+export function createAppJwt(
+  credentials: Pick<AppCredentials, "appId" | "privateKey">,
+  now: number = Date.now(),
+): string {
+  const key = parsePrivateKey(credentials.privateKey);
+  const issuedAt = Math.floor(now / 1000) - 60; // Allow for clock drift
+  const encode = (value: object) =>
+    Buffer.from(JSON.stringify(value)).toString("base64url");
+
+  const unsigned = `${encode({ alg: "RS256", typ: "JWT" })}.${encode({
+    iat: issuedAt,
+    exp: issuedAt + 600, // Maximum lifetime allowed by GitHub
+    iss: credentials.appId,
+  })}`;
+  const signature = createSign("RSA-SHA256").update(unsigned).sign(key);
+
+  return `${unsigned}.${signature.toString("base64url")}`;
+}
+
+/**
+ * Mint a short-lived installation token of the GitHub App, scoped to the repository
+ * The installation is discovered from the repository unless its ID is provided
+ */
+export async function createAppInstallationToken(
+  credentials: AppCredentials,
+  repoInfo: RepoInfo,
+  permissions: Record<string, "read" | "write">,
+  apiUrl?: string,
+): Promise<string> {
+  const appClient = new GitHubClient(createAppJwt(credentials), apiUrl);
+  const installationId =
+    credentials.installationId ??
+    (await appClient.getRepoInstallationId(repoInfo));
+
+  return appClient.createInstallationToken(
+    installationId,
+    repoInfo,
+    permissions,
+  );
+}
+
+/**
+ * Get the token used for the release: a GitHub App installation token
+ * when app credentials are provided, the configured token otherwise
+ */
+export async function resolveAuthToken(
+  pluginConfig: PluginConfig,
+  context: Pick<SemanticReleaseContext, "env" | "logger">,
+  repoInfo: RepoInfo,
+  apiUrl?: string,
+): Promise<string> {
+  const credentials = getAppCredentials(context.env, pluginConfig);
+
+  if (!credentials) {
+    return getAuthToken(context.env, pluginConfig.githubToken);
+  }
+
+  const permissions: Record<string, "read" | "write"> = { contents: "write" };
+  if (pluginConfig.mode === "pull-request") {
+    permissions.pull_requests = "write";
+  }
+
+  context.logger.log(
+    `Creating installation token for GitHub App ${credentials.appId}...`,
+  );
+  return createAppInstallationToken(
+    credentials,
+    repoInfo,
+    permissions,
+    apiUrl,
+  );
+}
@@ -0,0 +1,106 @@
+import { GitHubClient } from "./github";
+import {
+  FileBlob,
+  FileDeletion,
+  GitHubCommit,
+  GitHubTree,
+  GitIdentity,
+  RepoInfo,
+  SemanticReleaseContext,
+} from "./types";
+import { findChangedPaths } from "./files";
+import { createError } from "./errors";
+
+export interface CommitChanges {
+  /**
+   * Files that differ from the base tree, with their local git blob SHA
+   */
+  files: Array<FileBlob & { sha: string }>;
+  deletions: FileDeletion[];
+  message: string;
+  author?: GitIdentity;
+}
+
+export interface CommitRequest {
+  repo: RepoInfo;
+  /**
+   * Branch head the commits are created on
+   */
+  parentSha: string;
+  /**
+   * Full tree of the parent commit
+   */
+  baseTree: GitHubTree;
+  /**
+   * Commits to create in order, each on top of the previous one
+   */
+  commits: CommitChanges[];
+  /**
+   * All paths managed by the release, checked for upstream changes when rebasing
+   */
+  paths: string[];
+  committer?: GitIdentity;
+  /**
+   * Maximum number of times the commit is rebased when the branch moved
+   */
+  maxRebaseRetries: number;
+}
+
+export interface CommitBackend {
+  /**
+   * Commit the changes on top of the parent commit and move the branch to the
+   * last commit, rebasing onto the new head if the branch moved in the meantime
+   * Returns undefined when the changes leave the base tree unchanged
+   */
+  commitOnBranch(request: CommitRequest): Promise<GitHubCommit | undefined>;
+}
+
+/**
+ * Read the new head of a branch that moved during the release
+ * Fails if files managed by the release were changed upstream, since
+ * committing over them would silently revert those changes
+ */
+export async function readMovedHead(
+  github: GitHubClient,
+  request: CommitRequest,
+  parentTree: GitHubTree,
+): Promise<{ sha: string; tree: GitHubTree }> {
+  const { repo } = request;
+  const headRef = await github.getRef(repo);
+  const headCommit = await github.getCommit(repo, headRef.object.sha);
+  const headTree = await github.getTree(repo, headCommit.tree.sha);
+
+  const conflicts = findChangedPaths(
+    parentTree.tree,
+    headTree.tree,
+    request.paths,
+  );
+  if (conflicts.length > 0) {
+    throw createError(
+      "ECONFLICT",
+      `Files committed by the release were changed on branch ${repo.branch} in the meantime`,
+      conflicts.join(", "),
+    );
+  }
+
+  return { sha: headRef.object.sha, tree: headTree };
+}
+
+/**
+ * Log that the branch moved and a rebase is attempted, or rethrow the error
+ * if it is not caused by the branch moving or the retries are exhausted
+ */
+export function handleBranchMoved(
+  error: any,
+  request: CommitRequest,
+  attempt: number,
+  logger: SemanticReleaseContext["logger"],
+): void {
+  if (error.code !== "EBRANCHMOVED" || attempt >= request.maxRebaseRetries) {
+    throw error;
+  }
+
+  logger.warn(
+    `Branch ${request.repo.branch} moved during the release - rebasing (retry ${attempt + 1}/${request.maxRebaseRetries})`,
+  );
+}
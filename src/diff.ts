@@ -0,0 +1,164 @@
+interface Edit {
+  type: " " | "-" | "+";
+  line: string;
+}
+
+/**
+ * Number of unchanged lines shown around changes
+ */
+const CONTEXT_LINES = 3;
+
+/**
+ * Maximum number of edits searched before giving up on a diff
+ */
+const MAX_EDITS = 2000;
+
+/**
+ * Printed after a last line without a final newline, like diff -u does
+ */
+const NO_NEWLINE_MARKER = "\n\\ No newline at end of file";
+
+/**
+ * Split text into lines, without the empty line after a final newline
+ * A last line without a final newline ends with the marker, so that it
+ * differs from the same line with one
+ */
+function splitLines(text: string): string[] {
+  if (text === "") {
+    return [];
+  }
+  const lines = text.split("\n");
+  if (lines[lines.length - 1] === "") {
+    lines.pop();
+  } else {
+    lines[lines.length - 1] += NO_NEWLINE_MARKER;
+  }
+  return lines;
+}
+
+/**
+ * Compute the shortest edit script between two lists of lines (Myers' algorithm)
+ * Returns undefined when the lists differ by more than MAX_EDITS lines
+ */
+function diffLines(a: string[], b: string[]): Edit[] | undefined {
+  const n = a.length;
+  const m = b.length;
+  const offset = MAX_EDITS + 1;
+  const v = new Int32Array(2 * offset + 1);
+  // Furthest reaching x of each diagonal k before each step, for k in [-d, d]
+  const trace: Int32Array[] = [];
+
+  let found = false;
+  for (let d = 0; d <= Math.min(n + m, MAX_EDITS) && !found; d++) {
+    trace.push(v.slice(offset - d, offset + d + 1));
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+  }
+  if (!found) {
+    return undefined;
+  }
+
+  // Walk back from the end to the start, following the furthest reaching paths
+  const edits: Edit[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const previous = (k: number) => trace[d][k + d];
+    const k = x - y;
+    const previousK =
+      k === -d || (k !== d && previous(k - 1) < previous(k + 1)) ? k + 1 : k - 1;
+    const previousX = d === 0 ? 0 : previous(previousK);
+    const previousY = previousX - previousK;
+
+    while (x > previousX && y > previousY) {
+      edits.push({ type: " ", line: a[--x] });
+      y--;
+    }
+    if (d > 0) {
+      if (x === previousX) {
+        edits.push({ type: "+", line: b[--y] });
+      } else {
+        edits.push({ type: "-", line: a[--x] });
+      }
+    }
+  }
+
+  return edits.reverse();
+}
+
+/**
+ * Create a unified diff between two versions of a text file
+ * Returns an empty string if both versions are identical, and undefined if
+ * the versions are too different to compute a diff
+ */
+export function createUnifiedDiff(
+  path: string,
+  oldText: string,
+  newText: string,
+): string | undefined {
+  const edits = diffLines(splitLines(oldText), splitLines(newText));
+  if (!edits) {
+    return undefined;
+  }
+
+  const changes = edits
+    .map((edit, index) => (edit.type === " " ? -1 : index))
+    .filter((index) => index >= 0);
+  if (changes.length === 0) {
+    return "";
+  }
+
+  // Group changes closer than twice the context into the same hunk
+  const hunks: Array<[number, number]> = [];
+  for (const index of changes) {
+    const last = hunks[hunks.length - 1];
+    if (last && index - last[1] <= 2 * CONTEXT_LINES) {
+      last[1] = index;
+    } else {
+      hunks.push([index, index]);
+    }
+  }
+
+  // Line numbers in both versions at the start of each edit
+  const oldLines: number[] = [];
+  const newLines: number[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  for (const edit of edits) {
+    oldLines.push(oldLine);
+    newLines.push(newLine);
+    if (edit.type !== "+") oldLine++;
+    if (edit.type !== "-") newLine++;
+  }
+
+  const output = [`--- a/${path}`, `+++ b/${path}`];
+  for (const [first, last] of hunks) {
+    const start = Math.max(0, first - CONTEXT_LINES);
+    const end = Math.min(edits.length - 1, last + CONTEXT_LINES);
+    const hunk = edits.slice(start, end + 1);
+    const oldCount = hunk.filter((edit) => edit.type !== "+").length;
+    const newCount = hunk.filter((edit) => edit.type !== "-").length;
+    // Empty ranges are numbered after the line preceding them
+    const oldStart = oldCount === 0 ? oldLines[start] - 1 : oldLines[start];
+    const newStart = newCount === 0 ? newLines[start] - 1 : newLines[start];
+
+    output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    hunk.forEach((edit) => output.push(`${edit.type}${edit.line}`));
+  }
+
+  return output.join("\n");
+}
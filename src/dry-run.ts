@@ -0,0 +1,150 @@
+import { GitHubClient } from "./github";
+import {
+  FileBlob,
+  FileDeletion,
+  GitHubTree,
+  RepoInfo,
+  SemanticReleaseContext,
+} from "./types";
+import { isBinaryContent } from "./files";
+import { createUnifiedDiff } from "./diff";
+import { formatDelta } from "./utils";
+import { ExcludedFile } from "./ignore";
+
+/**
+ * Largest file version for which a diff is shown
+ */
+const MAX_DIFF_SIZE = 1024 * 1024;
+
+export interface DryRunChanges {
+  /**
+   * All files matched by the release, with their local git blob SHA
+   */
+  files: Array<FileBlob & { sha: string }>;
+  deletions: FileDeletion[];
+  /**
+   * Files matched by the release but excluded by ignore rules
+   */
+  excluded: ExcludedFile[];
+  baseTree: GitHubTree;
+}
+
+/**
+ * Get the diff of a text file against its remote version, or a note explaining
+ * why no diff can be shown
+ */
+async function getFileDiff(
+  github: GitHubClient,
+  repoInfo: RepoInfo,
+  file: FileBlob,
+  remote?: { sha: string; size?: number },
+): Promise<string> {
+  if (file.encoding !== "utf-8") {
+    return "(binary file, no diff)";
+  }
+  if (
+    Buffer.byteLength(file.content) > MAX_DIFF_SIZE ||
+    (remote?.size ?? 0) > MAX_DIFF_SIZE
+  ) {
+    return "(file too large, no diff)";
+  }
+
+  const remoteContent = remote
+    ? await github.getBlob(repoInfo, remote.sha)
+    : Buffer.alloc(0);
+  if (isBinaryContent(remoteContent)) {
+    return "(remote version is binary, no diff)";
+  }
+
+  return (
+    createUnifiedDiff(file.path, remoteContent.toString("utf-8"), file.content) ??
+    "(too many changes, no diff)"
+  );
+}
+
+/**
+ * Log how each file compares to the remote branch: added, modified, unchanged
+ * or deleted, with the size difference and optionally a diff of text files
+ */
+export async function logDryRunChanges(
+  github: GitHubClient,
+  repoInfo: RepoInfo,
+  changes: DryRunChanges,
+  options: { diff: boolean },
+  logger: SemanticReleaseContext["logger"],
+): Promise<void> {
+  const remoteBlobs = new Map(
+    changes.baseTree.tree
+      .filter((item) => item.type === "blob")
+      .map((item) => [item.path, item]),
+  );
+  const counts = { added: 0, modified: 0, unchanged: 0, deleted: 0 };
+
+  logger.log(`[DRY RUN] Changes compared to branch ${repoInfo.branch}:`);
+  for (const file of changes.files) {
+    const size = Buffer.byteLength(file.content, file.encoding);
+    const mode = file.mode ?? "100644";
+    const remote = remoteBlobs.get(file.path);
+    const details: string[] = [file.encoding];
+    if (file.lfs) {
+      details.push("lfs");
+    }
+    if (file.inline) {
+      details.push("inline");
+    }
+
+    let status: keyof typeof counts;
+    if (!remote) {
+      status = "added";
+      if (mode !== "100644") details.push(mode);
+      details.push(formatDelta(size));
+    } else if (remote.sha === file.sha && remote.mode === mode) {
+      status = "unchanged";
+      if (mode !== "100644") details.push(mode);
+      details.push(`${size} bytes`);
+    } else {
+      status = "modified";
+      if (remote.mode !== mode) {
+        details.push(`mode ${remote.mode} -> ${mode}`);
+      } else if (mode !== "100644") {
+        details.push(mode);
+      }
+      details.push(
+        remote.size === undefined
+          ? `${size} bytes`
+          : `${remote.size} -> ${size} bytes, ${formatDelta(size - remote.size)}`,
+      );
+    }
+
+    counts[status]++;
+    logger.log(`  - ${file.path}: ${status} (${details.join(", ")})`);
+
+    if (options.diff && status !== "unchanged" && remote?.sha !== file.sha) {
+      const diff = await getFileDiff(github, repoInfo, file, remote);
+      if (diff) {
+        logger.log(diff);
+      }
+    }
+  }
+
+  for (const deletion of changes.deletions) {
+    const size = remoteBlobs.get(deletion.path)?.size;
+    const details: string[] = [deletion.reason];
+    if (size !== undefined) {
+      details.push(formatDelta(-size));
+    }
+    counts.deleted++;
+    logger.log(`  - ${deletion.path}: deleted (${details.join(", ")})`);
+  }
+
+  logger.log(
+    `[DRY RUN] ${counts.added} added, ${counts.modified} modified, ${counts.unchanged} unchanged, ${counts.deleted} deleted`,
+  );
+
+  if (changes.excluded.length > 0) {
+    logger.log(`[DRY RUN] Excluded by ignore rules:`);
+    for (const file of changes.excluded) {
+      logger.log(`  - ${file.source}: ${file.rule}`);
+    }
+  }
+}
@@ -1,6 +1,10 @@
 export class SemanticReleaseError extends Error {
   code: string;
   details?: string;
+  /**
+   * Marks the error as expected, semantic-release reports it without a stack trace
+   */
+  semanticRelease = true;
 
   constructor(message: string, code: string, details?: string) {
     super(message);
@@ -13,11 +17,20 @@ export class SemanticReleaseError extends Error {
 
 export const ERROR_CODES = {
   EGHNOAUTH: 'EGHNOAUTH',
+  EGHNOPERMISSION: 'EGHNOPERMISSION',
   ENOFILES: 'ENOFILES',
   EGHAPI: 'EGHAPI',
   ENOREPO: 'ENOREPO',
   ENOBRANCH: 'ENOBRANCH',
   EINVALIDCONFIG: 'EINVALIDCONFIG',
+  EBRANCHMOVED: 'EBRANCHMOVED',
+  ECONFLICT: 'ECONFLICT',
+  EPULLREQUEST: 'EPULLREQUEST',
+  EFILETOOLARGE: 'EFILETOOLARGE',
+  ELFS: 'ELFS',
+  ELOCALSYNC: 'ELOCALSYNC',
+  EOUTPUT: 'EOUTPUT',
+  EREPLACEMENT: 'EREPLACEMENT',
 } as const;
 
 export function createError(code: keyof typeof ERROR_CODES, message: string, details?: string): SemanticReleaseError {
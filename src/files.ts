@@ -1,106 +1,434 @@
-import { readFile } from "fs/promises";
-import { join } from "path";
+import { isUtf8 } from "buffer";
+import { lstat, readFile, readlink } from "fs/promises";
+import { join, posix } from "path";
 import { globby } from "globby";
-import { FileBlob } from "./types";
+import micromatch from "micromatch";
+import {
+  FileBlob,
+  FileDeletion,
+  FileMapping,
+  InlineFile,
+  FileMode,
+  FilePattern,
+  FileSizeLimits,
+  GitHubTreeItem,
+  ReadFileOptions,
+  ResolvedFile,
+} from "./types";
 import { createError } from "./errors";
+import { createLfsPointer, getLfsObject, isLfsPointer } from "./lfs";
+import { checkKeys } from "./utils";
 
 /**
- * Resolve file globs to actual file paths
+ * Largest file accepted by GitHub
+ */
+const DEFAULT_MAX_FILE_SIZE = 100 * 1024 * 1024;
+
+/**
+ * Get the directory of a mapping source that matched paths are relative to:
+ * the static part of a glob, or the parent directory of a single file
+ */
+function getMappingRoot(from: string): string {
+  const { base, isGlob } = micromatch.scan(from);
+  const root = isGlob ? base : posix.dirname(base);
+  return root === "." ? "" : root;
+}
+
+/**
+ * Get the path in the repository of a local file matched by a mapping
+ */
+function mapPath(mapping: FileMapping, source: string): string {
+  if (!mapping.to.endsWith("/")) {
+    return posix.normalize(mapping.to);
+  }
+
+  const root = getMappingRoot(mapping.from);
+  const relative =
+    root && source.startsWith(`${root}/`)
+      ? source.slice(root.length + 1)
+      : source;
+  return posix.join(mapping.to, relative);
+}
+
+/**
+ * Check if a files option entry is a file generated from its content
+ */
+export function isInlineFile(file: FilePattern): file is InlineFile {
+  return typeof file !== "string" && "content" in file;
+}
+
+/**
+ * Get the patterns matching the repository paths of the files option
+ */
+function getRemotePatterns(files: FilePattern[]): string[] {
+  return files.map((file) => {
+    if (typeof file === "string") {
+      return file;
+    }
+    if (isInlineFile(file)) {
+      return posix.normalize(file.path);
+    }
+    const { isGlob, glob, base } = micromatch.scan(file.from);
+    return mapPath(file, isGlob ? posix.join(base, glob) : base);
+  });
+}
+
+/**
+ * Convert a path relative to the working directory to a path in the repository,
+ * given the path of the working directory in the repository
+ */
+export function toRepositoryPath(directory: string, path: string): string {
+  const repositoryPath = posix.join(directory, path);
+  if (
+    posix.isAbsolute(path) ||
+    repositoryPath === ".." ||
+    repositoryPath.startsWith("../")
+  ) {
+    throw createError(
+      "EINVALIDCONFIG",
+      `Path ${path} is outside of the repository`,
+    );
+  }
+  return repositoryPath;
+}
+
+/**
+ * Convert a glob pattern relative to the working directory to a pattern
+ * matching paths in the repository
+ */
+export function toRepositoryPattern(directory: string, pattern: string): string {
+  return pattern.startsWith("!")
+    ? `!${toRepositoryPath(directory, pattern.slice(1))}`
+    : toRepositoryPath(directory, pattern);
+}
+
+/**
+ * Format a files option entry for logs
+ */
+export function formatFilePattern(file: FilePattern): string {
+  if (typeof file === "string") {
+    return file;
+  }
+  return isInlineFile(file)
+    ? `${file.path} (inline)`
+    : `${file.from} -> ${file.to}`;
+}
+
+/**
+ * Validate the files option without resolving it: mappings and inline files
+ * must be well formed, and files that are not globs must not be committed to
+ * the same path
+ */
+export function validateFilePatterns(files: unknown[]): void {
+  const destinations = new Map<string, string[]>();
+  const inlinePaths = new Set<string>();
+
+  for (const file of files) {
+    if (typeof file === "string") {
+      if (!micromatch.scan(file).isGlob) {
+        destinations.set(file, [...(destinations.get(file) ?? []), file]);
+      }
+      continue;
+    }
+
+    if (file && typeof file === "object" && "content" in file) {
+      const inline = file as Partial<InlineFile>;
+      if (
+        typeof inline.path !== "string" ||
+        typeof inline.content !== "string" ||
+        !inline.path
+      ) {
+        throw createError(
+          "EINVALIDCONFIG",
+          'Inline files of plugin option "files" must have a path and a string content',
+          JSON.stringify(file),
+        );
+      }
+      if (
+        posix.isAbsolute(inline.path) ||
+        micromatch.scan(inline.path).isGlob
+      ) {
+        throw createError(
+          "EINVALIDCONFIG",
+          `Inline file path ${inline.path} must be a relative file path`,
+        );
+      }
+      checkKeys(inline, ["path", "content"], "files");
+      const path = posix.normalize(inline.path);
+      if (inlinePaths.has(path)) {
+        throw createError(
+          "EINVALIDCONFIG",
+          `Inline file ${path} is declared several times`,
+        );
+      }
+      inlinePaths.add(path);
+      destinations.set(path, [...(destinations.get(path) ?? []), "inline"]);
+      continue;
+    }
+
+    const mapping = file as Partial<FileMapping> | null;
+    if (
+      typeof mapping?.from !== "string" ||
+      typeof mapping.to !== "string" ||
+      !mapping.from ||
+      !mapping.to
+    ) {
+      throw createError(
+        "EINVALIDCONFIG",
+        'Plugin option "files" must contain glob patterns, { from, to } mappings or { path, content } files',
+        JSON.stringify(file),
+      );
+    }
+    checkKeys(mapping, ["from", "to"], "files");
+
+    const { isGlob, negated } = micromatch.scan(mapping.from);
+    if (negated) {
+      throw createError(
+        "EINVALIDCONFIG",
+        `File mapping source ${mapping.from} cannot be a negated pattern`,
+      );
+    }
+    if (posix.isAbsolute(mapping.to)) {
+      throw createError(
+        "EINVALIDCONFIG",
+        `File mapping destination ${mapping.to} must be a relative path`,
+      );
+    }
+    if (isGlob && !mapping.to.endsWith("/")) {
+      throw createError(
+        "EINVALIDCONFIG",
+        `File mapping ${formatFilePattern(mapping as FileMapping)} maps a glob to a single file - end the destination with a slash to map it to a directory`,
+      );
+    }
+
+    if (!isGlob) {
+      const path = mapPath(mapping as FileMapping, mapping.from);
+      destinations.set(path, [...(destinations.get(path) ?? []), mapping.from]);
+    }
+  }
+
+  const conflicts = [...destinations].filter(
+    ([, sources]) => new Set(sources).size > 1,
+  );
+  if (conflicts.length > 0) {
+    throw createError(
+      "EINVALIDCONFIG",
+      "Several local files are mapped to the same path in the repository",
+      conflicts
+        .map(([path, sources]) => `${path} (${sources.join(", ")})`)
+        .join(", "),
+    );
+  }
+}
+
+/**
+ * Resolve file globs and mappings to actual files, with their paths in the
+ * repository given the path of the working directory in the repository
+ * Inline files are not resolved, they do not exist on disk
+ * Fails if several local files would be committed to the same path
  */
 export async function resolveFiles(
-  patterns: string[],
+  files: FilePattern[],
   cwd: string = process.cwd(),
-): Promise<string[]> {
+  directory: string = "",
+): Promise<ResolvedFile[]> {
+  // Symbolic links are not followed so that they are committed as links,
+  // directories are marked to keep only files and links
+  const globOptions = {
+    cwd,
+    gitignore: false,
+    dot: true,
+    onlyFiles: false,
+    markDirectories: true,
+    followSymbolicLinks: false,
+  };
+  const glob = async (patterns: string | string[]) =>
+    (await globby(patterns, globOptions)).filter(
+      (path) => !path.endsWith("/"),
+    );
+  const resolved = new Map<string, ResolvedFile>();
+  const conflicts = new Map<string, Set<string>>();
+
+  const add = (file: ResolvedFile) => {
+    file = {
+      path: toRepositoryPath(directory, file.path),
+      source: toRepositoryPath(directory, file.source),
+    };
+    const existing = resolved.get(file.path);
+    if (!existing) {
+      resolved.set(file.path, file);
+    } else if (existing.source !== file.source) {
+      const sources = conflicts.get(file.path) ?? new Set([existing.source]);
+      conflicts.set(file.path, sources.add(file.source));
+    }
+  };
+
   try {
-    const files = await globby(patterns, {
-      cwd,
-      gitignore: false,
-      dot: true,
-      onlyFiles: true,
-    });
-    return files;
+    const patterns = files.filter(
+      (file): file is string => typeof file === "string",
+    );
+    if (patterns.length > 0) {
+      const paths = await glob(patterns);
+      paths.forEach((path) => add({ path, source: path }));
+    }
+
+    for (const file of files) {
+      if (typeof file !== "string" && !isInlineFile(file)) {
+        const sources = await glob(file.from);
+        sources.forEach((source) =>
+          add({ path: mapPath(file, source), source }),
+        );
+      }
+    }
   } catch (error: any) {
+    if (error.code === "EINVALIDCONFIG") {
+      throw error;
+    }
     throw createError(
       "ENOFILES",
       "Failed to resolve file patterns",
       error.message,
     );
   }
+
+  if (conflicts.size > 0) {
+    throw createError(
+      "EINVALIDCONFIG",
+      "Several local files are mapped to the same path in the repository",
+      [...conflicts]
+        .map(([path, sources]) => `${path} (${[...sources].join(", ")})`)
+        .join(", "),
+    );
+  }
+
+  return [...resolved.values()];
+}
+
+/**
+ * Detect if file content must be treated as binary
+ * Content is text only if it is valid UTF-8 without null bytes, so that
+ * uploading it as a utf-8 string reproduces the exact same bytes
+ */
+export function isBinaryContent(buffer: Buffer): boolean {
+  // UTF-16 and UTF-32 byte order marks, content is not UTF-8
+  if (
+    (buffer[0] === 0xff && buffer[1] === 0xfe) ||
+    (buffer[0] === 0xfe && buffer[1] === 0xff)
+  ) {
+    return true;
+  }
+
+  if (buffer.includes(0)) {
+    return true;
+  }
+
+  // A UTF-8 byte order mark is valid UTF-8 and preserved as U+FEFF
+  return !isUtf8(buffer);
+}
+
+/**
+ * Choose the encoding of a file, honoring the forced binary/text patterns
+ */
+function detectEncoding(
+  path: string,
+  buffer: Buffer,
+  options: ReadFileOptions,
+): "utf-8" | "base64" {
+  const matchOptions = { dot: true };
+
+  if (
+    options.forceBinary?.length &&
+    micromatch.isMatch(path, options.forceBinary, matchOptions)
+  ) {
+    return "base64";
+  }
+
+  if (
+    options.forceText?.length &&
+    micromatch.isMatch(path, options.forceText, matchOptions)
+  ) {
+    return "utf-8";
+  }
+
+  return isBinaryContent(buffer) ? "base64" : "utf-8";
 }
 
 /**
- * Detect if a file should be treated as binary
- */
-function isBinaryFile(path: string): boolean {
-  const binaryExtensions = [
-    ".png",
-    ".jpg",
-    ".jpeg",
-    ".gif",
-    ".ico",
-    ".bmp",
-    ".svg",
-    ".pdf",
-    ".zip",
-    ".tar",
-    ".gz",
-    ".bz2",
-    ".7z",
-    ".woff",
-    ".woff2",
-    ".ttf",
-    ".eot",
-    ".otf",
-    ".mp3",
-    ".mp4",
-    ".avi",
-    ".mov",
-    ".exe",
-    ".dll",
-    ".so",
-    ".dylib",
-  ];
-
-  const lastDotIndex = path.lastIndexOf(".");
-  if (lastDotIndex === -1) {
-    return false; // No extension, treat as text
-  }
-  const ext = path.toLowerCase().substring(lastDotIndex);
-  return binaryExtensions.includes(ext);
+ * Convert CRLF line endings to LF, leaving lone CRs untouched
+ */
+function normalizeLineEndings(buffer: Buffer): Buffer {
+  // latin1 maps each byte to a character, so any content round trips
+  return Buffer.from(
+    buffer.toString("latin1").replace(/\r\n/g, "\n"),
+    "latin1",
+  );
 }
 
 /**
  * Read a file and prepare it as a blob
+ * Symbolic links are committed as links, with the link target as content
+ * The blob is committed to path, read from the local file source
  */
 export async function readFileAsBlob(
   path: string,
   cwd: string = process.cwd(),
+  options: ReadFileOptions = {},
+  source: string = path,
 ): Promise<FileBlob> {
   try {
-    const fullPath = join(cwd, path);
-    const isBinary = isBinaryFile(path);
+    const fullPath = join(cwd, source);
+    const stats = await lstat(fullPath);
+    const location = source === path ? { path } : { path, source };
 
-    if (isBinary) {
-      // Read as base64 for binary files
-      const buffer = await readFile(fullPath);
+    if (stats.isSymbolicLink()) {
       return {
-        path,
-        content: buffer.toString("base64"),
-        encoding: "base64",
+        ...location,
+        content: await readlink(fullPath),
+        encoding: "utf-8",
+        mode: "120000",
       };
-    } else {
-      // Read as utf-8 for text files
-      const content = await readFile(fullPath, "utf-8");
+    }
+
+    // Any execute bit makes the file executable, like git does
+    const mode: FileMode = stats.mode & 0o111 ? "100755" : "100644";
+    const buffer = await readFile(fullPath);
+
+    // Files tracked by Git LFS are committed as pointers to the LFS object
+    if (options.lfsPaths?.includes(path) && !isLfsPointer(buffer)) {
+      const lfs = getLfsObject(buffer);
       return {
-        path,
-        content,
+        ...location,
+        content: createLfsPointer(lfs),
         encoding: "utf-8",
+        mode,
+        lfs,
       };
     }
+
+    // Line endings of text files are normalized like git add does. Files with
+    // lone CRs are not detected as text, their content would not round trip
+    const isText =
+      options.textPaths?.includes(path) ||
+      (options.autoTextPaths?.includes(path) &&
+        detectEncoding(path, buffer, options) === "utf-8" &&
+        !/\r(?!\n)/.test(buffer.toString("latin1")));
+    const content = isText ? normalizeLineEndings(buffer) : buffer;
+    const encoding = detectEncoding(path, content, options);
+
+    const blob: FileBlob = {
+      ...location,
+      content: content.toString(encoding),
+      encoding,
+      mode,
+    };
+    if (content.length !== buffer.length) {
+      blob.normalized = true;
+    }
+    return blob;
   } catch (error: any) {
     throw createError(
       "ENOFILES",
-      `Failed to read file: ${path}`,
+      `Failed to read file: ${source}`,
       error.message,
     );
   }
@@ -110,15 +438,157 @@ export async function readFileAsBlob(
  * Read multiple files as blobs
  */
 export async function readFilesAsBlobs(
-  paths: string[],
+  files: ResolvedFile[],
   cwd: string = process.cwd(),
+  options: ReadFileOptions = {},
 ): Promise<FileBlob[]> {
   const blobs: FileBlob[] = [];
 
-  for (const path of paths) {
-    const blob = await readFileAsBlob(path, cwd);
+  for (const file of files) {
+    const blob = await readFileAsBlob(file.path, cwd, options, file.source);
     blobs.push(blob);
   }
 
   return blobs;
 }
+
+/**
+ * Check the size of files against the configured limits before reading them
+ * Files tracked by Git LFS are only committed as small pointers and not checked
+ */
+export async function checkFileSizes(
+  files: ResolvedFile[],
+  cwd: string = process.cwd(),
+  limits: FileSizeLimits = {},
+): Promise<void> {
+  const maxFileSize = limits.maxFileSize ?? DEFAULT_MAX_FILE_SIZE;
+  const sizes: Array<{ path: string; size: number }> = [];
+
+  for (const { path, source } of files) {
+    if (limits.lfsPaths?.includes(path)) {
+      continue;
+    }
+    try {
+      const stats = await lstat(join(cwd, source));
+      sizes.push({ path, size: stats.size });
+    } catch (error: any) {
+      throw createError(
+        "ENOFILES",
+        `Failed to read file: ${source}`,
+        error.message,
+      );
+    }
+  }
+
+  const formatSizes = (files: typeof sizes) =>
+    [...files]
+      .sort((a, b) => b.size - a.size)
+      .map((file) => `${file.path} (${file.size} bytes)`)
+      .join(", ");
+
+  const tooLarge = sizes.filter((file) => file.size > maxFileSize);
+  if (tooLarge.length > 0) {
+    throw createError(
+      "EFILETOOLARGE",
+      `${tooLarge.length} file(s) exceed the maximum file size of ${maxFileSize} bytes`,
+      formatSizes(tooLarge),
+    );
+  }
+
+  const totalSize = sizes.reduce((total, file) => total + file.size, 0);
+  if (limits.maxTotalSize !== undefined && totalSize > limits.maxTotalSize) {
+    throw createError(
+      "EFILETOOLARGE",
+      `Files total ${totalSize} bytes, exceeding the maximum total size of ${limits.maxTotalSize} bytes`,
+      formatSizes(sizes),
+    );
+  }
+}
+
+/**
+ * Determine which files of the remote tree should be deleted
+ */
+export function resolveDeletions(
+  remoteTree: GitHubTreeItem[],
+  localPaths: string[],
+  options: {
+    files: FilePattern[];
+    remove?: string[];
+    deleteMissing?: boolean;
+    /**
+     * Path of the working directory in the repository, patterns are relative to it
+     */
+    directory?: string;
+  },
+): FileDeletion[] {
+  const local = new Set(localPaths);
+  const remotePaths = remoteTree
+    .filter((item) => item.type === "blob" && !local.has(item.path))
+    .map((item) => item.path);
+  const deletions = new Map<string, FileDeletion>();
+  const toPatterns = (patterns: string[]) =>
+    patterns.map((pattern) =>
+      toRepositoryPattern(options.directory ?? "", pattern),
+    );
+
+  if (options.remove && options.remove.length > 0) {
+    const patterns = toPatterns(options.remove);
+    for (const path of micromatch(remotePaths, patterns, { dot: true })) {
+      deletions.set(path, { path, reason: "removed" });
+    }
+  }
+
+  if (options.deleteMissing) {
+    const patterns = toPatterns(getRemotePatterns(options.files));
+    for (const path of micromatch(remotePaths, patterns, { dot: true })) {
+      if (!deletions.has(path)) {
+        deletions.set(path, { path, reason: "missing" });
+      }
+    }
+  }
+
+  return [...deletions.values()];
+}
+
+/**
+ * Replace the executable bit of local files with the one recorded in the
+ * remote tree
+ * Files that do not exist in the remote tree keep their local mode, and so
+ * do symbolic links and files replacing one, since their content differs
+ */
+export function inheritModes(
+  blobs: FileBlob[],
+  remoteTree: GitHubTreeItem[],
+): FileBlob[] {
+  const fileModes: string[] = ["100644", "100755"];
+  const remoteModes = new Map(
+    remoteTree
+      .filter((item) => item.type === "blob" && fileModes.includes(item.mode))
+      .map((item) => [item.path, item.mode as FileMode]),
+  );
+
+  return blobs.map((blob) => {
+    const mode = remoteModes.get(blob.path);
+    return mode && fileModes.includes(blob.mode ?? "100644")
+      ? { ...blob, mode }
+      : blob;
+  });
+}
+
+/**
+ * Find the given paths whose entry differs between two trees
+ */
+export function findChangedPaths(
+  baseTree: GitHubTreeItem[],
+  headTree: GitHubTreeItem[],
+  paths: string[],
+): string[] {
+  const toKey = (item?: GitHubTreeItem) =>
+    item ? `${item.type} ${item.mode} ${item.sha}` : "";
+  const baseEntries = new Map(baseTree.map((item) => [item.path, item]));
+  const headEntries = new Map(headTree.map((item) => [item.path, item]));
+
+  return paths.filter(
+    (path) => toKey(baseEntries.get(path)) !== toKey(headEntries.get(path)),
+  );
+}
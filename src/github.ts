@@ -1,21 +1,308 @@
 import { Octokit } from "@octokit/rest";
 import {
   GitHubBlob,
+  GitHubBranch,
+  GitHubBranchRule,
   GitHubCommit,
+  GitHubPullRequest,
   GitHubRef,
+  GitHubRepository,
   GitHubTree,
+  GitIdentity,
   RepoInfo,
+  SemanticReleaseContext,
+  TreeEntry,
 } from "./types";
 import { createError } from "./errors";
+import { sleep } from "./utils";
+
+export interface GitHubClientOptions {
+  /**
+   * Maximum number of concurrent API requests
+   * @default 10
+   */
+  maxConcurrency?: number;
+
+  /**
+   * Maximum number of retries of a failed API request
+   * @default 3
+   */
+  maxRetries?: number;
+
+  /**
+   * Logger used to report retries
+   */
+  logger?: Pick<SemanticReleaseContext["logger"], "warn">;
+}
+
+/**
+ * Base delay of the exponential backoff between retries
+ */
+const RETRY_BASE_DELAY = 1000;
+
+/**
+ * Check if a failed request is worth retrying
+ * A server error or a timeout may hide a request that succeeded, so only
+ * idempotent requests are retried then
+ */
+function isRetryable(error: any, idempotent: boolean): boolean {
+  const status = error.status;
+  if (status === 429) {
+    return true;
+  }
+  if (status >= 500 && status < 600) {
+    return idempotent;
+  }
+
+  // Primary and secondary rate limits are reported as 403
+  if (status === 403) {
+    const headers = error.response?.headers ?? {};
+    return (
+      headers["x-ratelimit-remaining"] === "0" ||
+      !!headers["retry-after"] ||
+      /rate limit|abuse/i.test(error.message ?? "")
+    );
+  }
+
+  return false;
+}
+
+/**
+ * Compute how long to wait before retrying a failed request (in ms)
+ */
+function getRetryDelay(error: any, attempt: number): number {
+  const headers = error.response?.headers ?? {};
+
+  const retryAfter = Number(headers["retry-after"]);
+  if (retryAfter > 0) {
+    return retryAfter * 1000;
+  }
+
+  const reset = Number(headers["x-ratelimit-reset"]);
+  if (headers["x-ratelimit-remaining"] === "0" && reset > 0) {
+    return Math.max(reset * 1000 - Date.now(), 0);
+  }
+
+  return RETRY_BASE_DELAY * 2 ** attempt;
+}
+
+/**
+ * Map a pull request from the REST API
+ */
+function toPullRequest(data: {
+  number: number;
+  node_id: string;
+  html_url: string;
+  state: string;
+  merged?: boolean;
+  merge_commit_sha?: string | null;
+}): GitHubPullRequest {
+  return {
+    number: data.number,
+    nodeId: data.node_id,
+    url: data.html_url,
+    state: data.state,
+    merged: data.merged ?? false,
+    mergeCommitSha: data.merge_commit_sha ?? null,
+  };
+}
+
+/**
+ * Split a commit message into its title and its body, like git does
+ */
+function splitCommitMessage(message: string): { title: string; body: string } {
+  const [title, ...body] = message.split("\n");
+  return { title, body: body.join("\n").trim() };
+}
 
 export class GitHubClient {
   private octokit: Octokit;
+  private maxConcurrency: number;
+  private maxRetries: number;
+  private logger?: GitHubClientOptions["logger"];
+  private activeRequests = 0;
+  private queuedRequests: Array<() => void> = [];
 
-  constructor(token: string, baseUrl?: string) {
+  constructor(
+    token: string,
+    baseUrl?: string,
+    options: GitHubClientOptions = {},
+  ) {
     this.octokit = new Octokit({
       auth: token,
       baseUrl,
     });
+    this.maxConcurrency = options.maxConcurrency ?? 10;
+    this.maxRetries = options.maxRetries ?? 3;
+    this.logger = options.logger;
+  }
+
+  /**
+   * Run an API request, bounded by the concurrency cap and retried on transient failures
+   */
+  private async request<T>(
+    fn: () => Promise<T>,
+    idempotent: boolean = true,
+  ): Promise<T> {
+    if (this.activeRequests < this.maxConcurrency) {
+      this.activeRequests++;
+    } else {
+      // The slot is handed over by the request that finishes
+      await new Promise<void>((resolve) => this.queuedRequests.push(resolve));
+    }
+
+    try {
+      for (let attempt = 0; ; attempt++) {
+        try {
+          return await fn();
+        } catch (error: any) {
+          if (attempt >= this.maxRetries || !isRetryable(error, idempotent)) {
+            throw error;
+          }
+          const delay = getRetryDelay(error, attempt);
+          this.logger?.warn(
+            `GitHub API request failed (${error.status}), retrying in ${Math.ceil(delay / 1000)}s (retry ${attempt + 1}/${this.maxRetries})`,
+          );
+          await sleep(delay);
+        }
+      }
+    } finally {
+      const next = this.queuedRequests.shift();
+      if (next) {
+        next();
+      } else {
+        this.activeRequests--;
+      }
+    }
+  }
+
+  /**
+   * Run a request that is not idempotent, e.g. one creating a commit, which is
+   * only retried when rate limited since GitHub did not process it then
+   */
+  private mutate<T>(fn: () => Promise<T>): Promise<T> {
+    return this.request(fn, false);
+  }
+
+  /**
+   * Get a repository and the permissions of the authenticated user on it
+   */
+  async getRepository(repo: RepoInfo): Promise<GitHubRepository> {
+    try {
+      const { data } = await this.request(() =>
+        this.octokit.rest.repos.get({
+          owner: repo.owner,
+          repo: repo.repo,
+        }),
+      );
+
+      return {
+        fullName: data.full_name,
+        archived: data.archived,
+        permissions: data.permissions && {
+          admin: data.permissions.admin,
+          push: data.permissions.push,
+        },
+      };
+    } catch (error: any) {
+      if (error.status === 404) {
+        throw createError(
+          "ENOREPO",
+          `Repository ${repo.owner}/${repo.repo} not found or not accessible with the configured token`,
+          error.message,
+        );
+      }
+      throw createError(
+        "EGHAPI",
+        `Failed to get repository ${repo.owner}/${repo.repo}`,
+        error.message,
+      );
+    }
+  }
+
+  /**
+   * Get the release branch
+   */
+  async getBranch(repo: RepoInfo): Promise<GitHubBranch> {
+    try {
+      const { data } = await this.request(() =>
+        this.octokit.rest.repos.getBranch({
+          owner: repo.owner,
+          repo: repo.repo,
+          branch: repo.branch,
+        }),
+      );
+
+      return {
+        name: data.name,
+        sha: data.commit.sha,
+        protected: data.protected,
+      };
+    } catch (error: any) {
+      if (error.status === 404) {
+        throw createError(
+          "ENOBRANCH",
+          `Branch ${repo.branch} does not exist in ${repo.owner}/${repo.repo}`,
+          error.message,
+        );
+      }
+      throw createError(
+        "EGHAPI",
+        `Failed to get branch ${repo.branch}`,
+        error.message,
+      );
+    }
+  }
+
+  /**
+   * Get the active ruleset rules that apply to the release branch
+   */
+  async getBranchRules(repo: RepoInfo): Promise<GitHubBranchRule[]> {
+    try {
+      const { data } = await this.request(() =>
+        this.octokit.rest.repos.getBranchRules({
+          owner: repo.owner,
+          repo: repo.repo,
+          branch: repo.branch,
+        }),
+      );
+
+      return data.map((rule: any) => ({
+        type: rule.type,
+        rulesetId: rule.ruleset_id,
+      }));
+    } catch (error: any) {
+      throw createError(
+        "EGHAPI",
+        `Failed to get rules of branch ${repo.branch}`,
+        error.message,
+      );
+    }
+  }
+
+  /**
+   * Check if the authenticated user can bypass a ruleset
+   * Returns "always", "pull_requests_only" or "never"
+   */
+  async getRulesetBypass(repo: RepoInfo, rulesetId: number): Promise<string> {
+    try {
+      const { data } = await this.request(() =>
+        this.octokit.rest.repos.getRepoRuleset({
+          owner: repo.owner,
+          repo: repo.repo,
+          ruleset_id: rulesetId,
+          includes_parents: true,
+        }),
+      );
+
+      return data.current_user_can_bypass ?? "never";
+    } catch (error: any) {
+      throw createError(
+        "EGHAPI",
+        `Failed to get ruleset ${rulesetId}`,
+        error.message,
+      );
+    }
   }
 
   /**
@@ -23,11 +310,13 @@ export class GitHubClient {
    */
   async getRef(repo: RepoInfo): Promise<GitHubRef> {
     try {
-      const { data } = await this.octokit.rest.git.getRef({
-        owner: repo.owner,
-        repo: repo.repo,
-        ref: `heads/${repo.branch}`,
-      });
+      const { data } = await this.request(() =>
+        this.octokit.rest.git.getRef({
+          owner: repo.owner,
+          repo: repo.repo,
+          ref: `heads/${repo.branch}`,
+        }),
+      );
 
       return {
         ref: data.ref,
@@ -54,12 +343,14 @@ export class GitHubClient {
     encoding: "utf-8" | "base64",
   ): Promise<GitHubBlob> {
     try {
-      const { data } = await this.octokit.rest.git.createBlob({
-        owner: repo.owner,
-        repo: repo.repo,
-        content,
-        encoding,
-      });
+      const { data } = await this.request(() =>
+        this.octokit.rest.git.createBlob({
+          owner: repo.owner,
+          repo: repo.repo,
+          content,
+          encoding,
+        }),
+      );
 
       return {
         sha: data.sha,
@@ -70,26 +361,79 @@ export class GitHubClient {
     }
   }
 
+  /**
+   * Get the content of a blob
+   */
+  async getBlob(repo: RepoInfo, sha: string): Promise<Buffer> {
+    try {
+      const { data } = await this.request(() =>
+        this.octokit.rest.git.getBlob({
+          owner: repo.owner,
+          repo: repo.repo,
+          file_sha: sha,
+        }),
+      );
+
+      return Buffer.from(data.content, data.encoding as BufferEncoding);
+    } catch (error: any) {
+      throw createError("EGHAPI", `Failed to get blob ${sha}`, error.message);
+    }
+  }
+
+  /**
+   * Get a tree, including all nested entries
+   */
+  async getTree(repo: RepoInfo, sha: string): Promise<GitHubTree> {
+    try {
+      const { data } = await this.request(() =>
+        this.octokit.rest.git.getTree({
+          owner: repo.owner,
+          repo: repo.repo,
+          tree_sha: sha,
+          recursive: "true",
+        }),
+      );
+
+      return {
+        sha: data.sha,
+        url: data.url,
+        tree: data.tree.map((item) => ({
+          path: item.path || "",
+          mode: item.mode || "",
+          type: item.type || "",
+          sha: item.sha || "",
+          size: item.size,
+        })),
+        truncated: data.truncated,
+      };
+    } catch (error: any) {
+      throw createError("EGHAPI", `Failed to get tree ${sha}`, error.message);
+    }
+  }
+
   /**
    * Create a tree with updated files
+   * Entries with a null SHA delete the path from the base tree
    */
   async createTree(
     repo: RepoInfo,
     baseTreeSha: string,
-    files: Array<{ path: string; sha: string }>,
+    files: TreeEntry[],
   ): Promise<GitHubTree> {
     try {
-      const { data } = await this.octokit.rest.git.createTree({
-        owner: repo.owner,
-        repo: repo.repo,
-        base_tree: baseTreeSha,
-        tree: files.map((file) => ({
-          path: file.path,
-          mode: "100644" as const,
-          type: "blob" as const,
-          sha: file.sha,
-        })),
-      });
+      const { data } = await this.request(() =>
+        this.octokit.rest.git.createTree({
+          owner: repo.owner,
+          repo: repo.repo,
+          base_tree: baseTreeSha,
+          tree: files.map((file) => ({
+            path: file.path,
+            mode: file.mode ?? "100644",
+            type: "blob" as const,
+            sha: file.sha,
+          })),
+        }),
+      );
 
       return {
         sha: data.sha,
@@ -111,11 +455,13 @@ export class GitHubClient {
    */
   async getCommit(repo: RepoInfo, sha: string): Promise<GitHubCommit> {
     try {
-      const { data } = await this.octokit.rest.git.getCommit({
-        owner: repo.owner,
-        repo: repo.repo,
-        commit_sha: sha,
-      });
+      const { data } = await this.request(() =>
+        this.octokit.rest.git.getCommit({
+          owner: repo.owner,
+          repo: repo.repo,
+          commit_sha: sha,
+        }),
+      );
 
       return {
         sha: data.sha,
@@ -142,8 +488,8 @@ export class GitHubClient {
     message: string,
     treeSha: string,
     parentShas: string[],
-    author?: { name: string; email: string },
-    committer?: { name: string; email: string },
+    author?: GitIdentity,
+    committer?: GitIdentity,
   ): Promise<GitHubCommit> {
     try {
       // Build the request parameters
@@ -164,7 +510,9 @@ export class GitHubClient {
         params.committer = committer;
       }
 
-      const { data } = await this.octokit.rest.git.createCommit(params);
+      const { data } = await this.request(() =>
+        this.octokit.rest.git.createCommit(params),
+      );
 
       return {
         sha: data.sha,
@@ -180,19 +528,92 @@ export class GitHubClient {
     }
   }
 
+  /**
+   * Create a commit on a branch with the GraphQL createCommitOnBranch mutation
+   * The commit is created and the branch updated atomically, only if the branch
+   * still points to the expected head commit
+   */
+  async createCommitOnBranch(
+    repo: RepoInfo,
+    expectedHeadOid: string,
+    message: string,
+    additions: Array<{ path: string; contents: string }>,
+    deletions: Array<{ path: string }>,
+  ): Promise<GitHubCommit> {
+    const { title, body } = splitCommitMessage(message);
+
+    try {
+      const data: any = await this.mutate(() =>
+        this.octokit.graphql(
+          `mutation($input: CreateCommitOnBranchInput!) {
+            createCommitOnBranch(input: $input) {
+              commit { oid url message tree { oid } }
+            }
+          }`,
+          {
+            input: {
+              branch: {
+                repositoryNameWithOwner: `${repo.owner}/${repo.repo}`,
+                branchName: repo.branch,
+              },
+              expectedHeadOid,
+              message: { headline: title, body },
+              fileChanges: { additions, deletions },
+            },
+          },
+        ),
+      );
+      const commit = data.createCommitOnBranch.commit;
+
+      return {
+        sha: commit.oid,
+        url: commit.url,
+        message: commit.message,
+        tree: {
+          sha: commit.tree.oid,
+        },
+        parents: [{ sha: expectedHeadOid }],
+      };
+    } catch (error: any) {
+      // The branch received new commits since the head commit was read
+      if (/expected branch to point to/i.test(error.message ?? "")) {
+        throw createError(
+          "EBRANCHMOVED",
+          `Failed to create commit on branch ${repo.branch}: the branch has moved`,
+          error.message,
+        );
+      }
+      throw createError(
+        "EGHAPI",
+        `Failed to create commit on branch ${repo.branch}`,
+        error.message,
+      );
+    }
+  }
+
   /**
    * Update a ref to point to a new commit (fast-forward)
    */
   async updateRef(repo: RepoInfo, sha: string): Promise<void> {
     try {
-      await this.octokit.rest.git.updateRef({
-        owner: repo.owner,
-        repo: repo.repo,
-        ref: `heads/${repo.branch}`,
-        sha,
-        force: false,
-      });
+      await this.request(() =>
+        this.octokit.rest.git.updateRef({
+          owner: repo.owner,
+          repo: repo.repo,
+          ref: `heads/${repo.branch}`,
+          sha,
+          force: false,
+        }),
+      );
     } catch (error: any) {
+      // The branch received new commits since the parent commit was read
+      if (error.status === 422 && /fast.forward/i.test(error.message ?? "")) {
+        throw createError(
+          "EBRANCHMOVED",
+          `Failed to update ref heads/${repo.branch} to ${sha}: the branch has moved`,
+          error.message,
+        );
+      }
       throw createError(
         "EGHAPI",
         `Failed to update ref heads/${repo.branch} to ${sha}`,
@@ -200,4 +621,278 @@ export class GitHubClient {
       );
     }
   }
+
+  /**
+   * Create a branch pointing to a commit
+   */
+  async createBranch(
+    repo: RepoInfo,
+    branch: string,
+    sha: string,
+  ): Promise<void> {
+    try {
+      await this.mutate(() =>
+        this.octokit.rest.git.createRef({
+          owner: repo.owner,
+          repo: repo.repo,
+          ref: `refs/heads/${branch}`,
+          sha,
+        }),
+      );
+    } catch (error: any) {
+      throw createError(
+        "EGHAPI",
+        `Failed to create branch ${branch}`,
+        error.message,
+      );
+    }
+  }
+
+  /**
+   * Create an annotated tag of a commit and force the tag ref to point to it
+   * The ref usually exists already, as a lightweight tag pushed with git
+   * Without a tagger, GitHub signs the tag as the authenticated app or user
+   * Returns the SHA of the tag object
+   */
+  async createTag(
+    repo: RepoInfo,
+    tag: string,
+    message: string,
+    sha: string,
+    tagger?: GitIdentity,
+  ): Promise<string> {
+    let tagSha: string;
+    try {
+      const { data } = await this.request(() =>
+        this.octokit.rest.git.createTag({
+          owner: repo.owner,
+          repo: repo.repo,
+          tag,
+          message,
+          object: sha,
+          type: "commit",
+          ...(tagger && {
+            tagger: { ...tagger, date: new Date().toISOString() },
+          }),
+        }),
+      );
+      tagSha = data.sha;
+    } catch (error: any) {
+      throw createError("EGHAPI", `Failed to create tag ${tag}`, error.message);
+    }
+
+    try {
+      await this.request(() =>
+        this.octokit.rest.git.updateRef({
+          owner: repo.owner,
+          repo: repo.repo,
+          ref: `tags/${tag}`,
+          sha: tagSha,
+          force: true,
+        }),
+      );
+    } catch (error: any) {
+      throw createError(
+        "EGHAPI",
+        `Failed to update ref tags/${tag} to ${tagSha}`,
+        error.message,
+      );
+    }
+
+    return tagSha;
+  }
+
+  /**
+   * Delete a branch
+   */
+  async deleteBranch(repo: RepoInfo, branch: string): Promise<void> {
+    try {
+      await this.request(() =>
+        this.octokit.rest.git.deleteRef({
+          owner: repo.owner,
+          repo: repo.repo,
+          ref: `heads/${branch}`,
+        }),
+      );
+    } catch (error: any) {
+      throw createError(
+        "EGHAPI",
+        `Failed to delete branch ${branch}`,
+        error.message,
+      );
+    }
+  }
+
+  /**
+   * Open a pull request from a branch into the release branch
+   */
+  async createPullRequest(
+    repo: RepoInfo,
+    head: string,
+    title: string,
+    body: string,
+  ): Promise<GitHubPullRequest> {
+    try {
+      const { data } = await this.mutate(() =>
+        this.octokit.rest.pulls.create({
+          owner: repo.owner,
+          repo: repo.repo,
+          base: repo.branch,
+          head,
+          title,
+          body,
+        }),
+      );
+
+      return toPullRequest(data);
+    } catch (error: any) {
+      throw createError(
+        "EGHAPI",
+        `Failed to create pull request from ${head}`,
+        error.message,
+      );
+    }
+  }
+
+  /**
+   * Get a pull request
+   */
+  async getPullRequest(
+    repo: RepoInfo,
+    number: number,
+  ): Promise<GitHubPullRequest> {
+    try {
+      const { data } = await this.request(() =>
+        this.octokit.rest.pulls.get({
+          owner: repo.owner,
+          repo: repo.repo,
+          pull_number: number,
+        }),
+      );
+
+      return toPullRequest(data);
+    } catch (error: any) {
+      throw createError(
+        "EGHAPI",
+        `Failed to get pull request #${number}`,
+        error.message,
+      );
+    }
+  }
+
+  /**
+   * Merge a pull request
+   */
+  async mergePullRequest(
+    repo: RepoInfo,
+    number: number,
+    mergeMethod: "merge" | "squash" | "rebase",
+    message?: string,
+  ): Promise<void> {
+    const commit = message ? splitCommitMessage(message) : undefined;
+    try {
+      await this.mutate(() =>
+        this.octokit.rest.pulls.merge({
+          owner: repo.owner,
+          repo: repo.repo,
+          pull_number: number,
+          merge_method: mergeMethod,
+          commit_title: commit?.title,
+          commit_message: commit?.body,
+        }),
+      );
+    } catch (error: any) {
+      throw createError(
+        "EGHAPI",
+        `Failed to merge pull request #${number}`,
+        error.message,
+      );
+    }
+  }
+
+  /**
+   * Enable auto-merge on a pull request
+   * Only available through the GraphQL API
+   */
+  async enableAutoMerge(
+    pullRequest: GitHubPullRequest,
+    mergeMethod: "merge" | "squash" | "rebase",
+    message?: string,
+  ): Promise<void> {
+    const commit = message ? splitCommitMessage(message) : undefined;
+    try {
+      await this.mutate(() =>
+        this.octokit.graphql(
+          `mutation($pullRequestId: ID!, $mergeMethod: PullRequestMergeMethod!, $commitHeadline: String, $commitBody: String) {
+            enablePullRequestAutoMerge(input: { pullRequestId: $pullRequestId, mergeMethod: $mergeMethod, commitHeadline: $commitHeadline, commitBody: $commitBody }) {
+              clientMutationId
+            }
+          }`,
+          {
+            pullRequestId: pullRequest.nodeId,
+            mergeMethod: mergeMethod.toUpperCase(),
+            commitHeadline: commit?.title,
+            commitBody: commit?.body,
+          },
+        ),
+      );
+    } catch (error: any) {
+      throw createError(
+        "EGHAPI",
+        `Failed to enable auto-merge on pull request #${pullRequest.number}`,
+        error.message,
+      );
+    }
+  }
+
+  /**
+   * Get the ID of the GitHub App installation for a repository
+   * Requires authenticating as the app (JWT)
+   */
+  async getRepoInstallationId(repo: RepoInfo): Promise<number> {
+    try {
+      const { data } = await this.request(() =>
+        this.octokit.rest.apps.getRepoInstallation({
+          owner: repo.owner,
+          repo: repo.repo,
+        }),
+      );
+
+      return data.id;
+    } catch (error: any) {
+      throw createError(
+        "EGHNOAUTH",
+        `GitHub App is not installed on ${repo.owner}/${repo.repo}`,
+        error.message,
+      );
+    }
+  }
+
+  /**
+   * Create an installation access token limited to a repository and permissions
+   * Requires authenticating as the app (JWT)
+   */
+  async createInstallationToken(
+    installationId: number,
+    repo: RepoInfo,
+    permissions: Record<string, "read" | "write">,
+  ): Promise<string> {
+    try {
+      const { data } = await this.request(() =>
+        this.octokit.rest.apps.createInstallationAccessToken({
+          installation_id: installationId,
+          repositories: [repo.repo],
+          permissions,
+        }),
+      );
+
+      return data.token;
+    } catch (error: any) {
+      throw createError(
+        "EGHNOAUTH",
+        `Failed to create a token for GitHub App installation ${installationId}`,
+        error.message,
+      );
+    }
+  }
 }
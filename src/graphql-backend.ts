@@ -0,0 +1,131 @@
+import { GitHubClient } from "./github";
+import {
+  GitHubCommit,
+  PluginConfig,
+  SemanticReleaseContext,
+} from "./types";
+import {
+  CommitBackend,
+  CommitChanges,
+  CommitRequest,
+  handleBranchMoved,
+  readMovedHead,
+} from "./backend";
+
+/**
+ * Maximum size of the file contents sent in a single GraphQL request
+ * GitHub rejects larger request bodies, keep a margin for the rest of the payload
+ */
+const MAX_GRAPHQL_PAYLOAD_SIZE = 40 * 1024 * 1024;
+
+/**
+ * Create commits with a single GraphQL createCommitOnBranch mutation
+ * The commit is verified and the branch moves atomically
+ */
+export class GraphQLCommitBackend implements CommitBackend {
+  private github: GitHubClient;
+  private logger: SemanticReleaseContext["logger"];
+
+  constructor(github: GitHubClient, logger: SemanticReleaseContext["logger"]) {
+    this.github = github;
+    this.logger = logger;
+  }
+
+  /**
+   * Only a request with a single commit is supported, see getGraphQLFallbackReason
+   */
+  async commitOnBranch(request: CommitRequest): Promise<GitHubCommit> {
+    const { repo } = request;
+    const [{ files, deletions: removed, message }] = request.commits;
+    const additions = files.map((blob) => ({
+      path: blob.path,
+      contents: toBase64(blob),
+    }));
+    const deletions = removed.map((deletion) => ({
+      path: deletion.path,
+    }));
+
+    let parentSha = request.parentSha;
+    let parentTree = request.baseTree;
+
+    for (let attempt = 0; ; attempt++) {
+      this.logger.log(
+        `Creating commit on ${repo.branch} with createCommitOnBranch (expected head ${parentSha})...`,
+      );
+      try {
+        const commit = await this.github.createCommitOnBranch(
+          repo,
+          parentSha,
+          message,
+          additions,
+          deletions,
+        );
+        this.logger.log(`Created commit: ${commit.sha}`);
+        return commit;
+      } catch (error: any) {
+        handleBranchMoved(error, request, attempt, this.logger);
+      }
+
+      const head = await readMovedHead(this.github, request, parentTree);
+      parentSha = head.sha;
+      parentTree = head.tree;
+    }
+  }
+}
+
+/**
+ * Explain why a commit cannot be created with the GraphQL backend
+ * Returns undefined when the GraphQL backend can be used
+ */
+export function getGraphQLFallbackReason(
+  request: CommitRequest,
+  pluginConfig: Pick<PluginConfig, "mode">,
+): string | undefined {
+  if (pluginConfig.mode === "pull-request") {
+    return "pull-request mode commits to a new branch";
+  }
+
+  // Each createCommitOnBranch call moves the branch
+  if (request.commits.length > 1) {
+    return "createCommitOnBranch cannot create several commits with a single branch update";
+  }
+
+  if (request.commits.some((commit) => commit.author) || request.committer) {
+    return "createCommitOnBranch does not support custom author or committer";
+  }
+
+  // createCommitOnBranch only creates regular files
+  const remoteModes = new Map(
+    request.baseTree.tree.map((item) => [item.path, item.mode]),
+  );
+  const files = request.commits.flatMap((commit) => commit.files);
+  const specialFiles = files.filter(
+    (blob) =>
+      (blob.mode ?? "100644") !== "100644" ||
+      (remoteModes.get(blob.path) ?? "100644") !== "100644",
+  );
+  if (specialFiles.length > 0) {
+    return `createCommitOnBranch does not support executable files or symlinks: ${specialFiles
+      .map((blob) => blob.path)
+      .join(", ")}`;
+  }
+
+  const payloadSize = files.reduce(
+    (size, blob) => size + toBase64(blob).length,
+    0,
+  );
+  if (payloadSize > MAX_GRAPHQL_PAYLOAD_SIZE) {
+    return `file contents (${payloadSize} bytes encoded) exceed the GraphQL payload limit`;
+  }
+
+  return undefined;
+}
+
+/**
+ * Encode file content as base64, as expected by createCommitOnBranch
+ */
+function toBase64(blob: CommitChanges["files"][number]): string {
+  return blob.encoding === "base64"
+    ? blob.content
+    : Buffer.from(blob.content, "utf-8").toString("base64");
+}
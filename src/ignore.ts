@@ -0,0 +1,236 @@
+import { readFile } from "fs/promises";
+import { join, posix } from "path";
+import { execa } from "execa";
+import micromatch from "micromatch";
+import { ResolvedFile } from "./types";
+import { toRepositoryPath, toRepositoryPattern } from "./files";
+import { createError } from "./errors";
+
+export interface IgnoreRule {
+  pattern: string;
+  /**
+   * Rule starting with "!", re-including files excluded by earlier rules
+   */
+  negated: boolean;
+  /**
+   * Directory of the ignore file in the repository, patterns are relative to it
+   */
+  base: string;
+  /**
+   * Where the rule comes from, e.g. ".releaseignore:3"
+   */
+  origin: string;
+}
+
+export interface ExcludedFile extends ResolvedFile {
+  /**
+   * Description of the rule excluding the file
+   */
+  rule: string;
+}
+
+export interface IgnoreOptions {
+  /**
+   * Glob patterns of files to exclude, relative to the working directory
+   */
+  ignore?: string[];
+  /**
+   * Ignore file in gitignore syntax, relative to the working directory
+   */
+  ignoreFile?: string;
+  /**
+   * Exclude files ignored by git
+   */
+  respectGitignore?: boolean;
+  /**
+   * Working directory, and its path in the repository
+   */
+  cwd: string;
+  directory: string;
+  /**
+   * Root of the local repository
+   */
+  root: string;
+  env: Record<string, string | undefined>;
+}
+
+/**
+ * Parse the content of an ignore file in gitignore syntax
+ */
+export function parseIgnoreFile(
+  source: string,
+  name: string,
+  base: string = "",
+): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+
+  source.split(/\r?\n/).forEach((line, index) => {
+    // Trailing spaces are ignored unless escaped, leading ones are significant
+    let pattern = line.replace(/(?<!\\)\s+$/, "");
+    if (!pattern || pattern.startsWith("#")) {
+      return;
+    }
+
+    const negated = pattern.startsWith("!");
+    if (negated) {
+      pattern = pattern.slice(1);
+    }
+    // Escaped leading "#" and "!" are part of the pattern
+    pattern = pattern.replace(/^\\([#!])/, "$1");
+
+    rules.push({ pattern, negated, base, origin: `${name}:${index + 1}` });
+  });
+
+  return rules;
+}
+
+/**
+ * Check if a path or one of its parent directories matches an ignore rule
+ * Patterns without a slash match at any depth, like in git
+ */
+function matchesIgnoreRule(path: string, rule: IgnoreRule): boolean {
+  if (rule.base && !path.startsWith(`${rule.base}/`)) {
+    return false;
+  }
+  const relativePath = rule.base ? path.slice(rule.base.length + 1) : path;
+
+  // Patterns ending with a slash only match directories
+  const directoryOnly = rule.pattern.endsWith("/");
+  const pattern = rule.pattern.replace(/\/$/, "");
+  const anchored = pattern.includes("/");
+
+  const segments = relativePath.split("/");
+  const candidates = segments
+    .map((_, index) => segments.slice(0, index + 1).join("/"))
+    .slice(0, directoryOnly ? -1 : undefined);
+
+  return candidates.some((candidate) =>
+    micromatch.isMatch(candidate, pattern.replace(/^\//, ""), {
+      dot: true,
+      basename: !anchored,
+    }),
+  );
+}
+
+/**
+ * Find the rule excluding a path, later rules overriding earlier ones
+ * Returns undefined if the path is not excluded
+ */
+export function findIgnoreRule(
+  rules: IgnoreRule[],
+  path: string,
+): IgnoreRule | undefined {
+  let match: IgnoreRule | undefined;
+  for (const rule of rules) {
+    if (matchesIgnoreRule(path, rule)) {
+      match = rule;
+    }
+  }
+  return match?.negated ? undefined : match;
+}
+
+/**
+ * Read the rules of an ignore file relative to the working directory
+ */
+async function readIgnoreFile(
+  path: string,
+  cwd: string,
+  directory: string,
+): Promise<IgnoreRule[]> {
+  let source: string;
+  try {
+    source = await readFile(join(cwd, path), "utf-8");
+  } catch (error: any) {
+    throw createError(
+      "ENOFILES",
+      `Failed to read ignore file ${path}`,
+      error.message,
+    );
+  }
+
+  const base = posix.dirname(toRepositoryPath(directory, path));
+  return parseIgnoreFile(source, path, base === "." ? "" : base);
+}
+
+/**
+ * Find the paths ignored by git, with the rule ignoring them
+ * Files tracked by git are never ignored
+ */
+async function findGitIgnoredPaths(
+  paths: string[],
+  root: string,
+  env: IgnoreOptions["env"],
+): Promise<Map<string, string>> {
+  const { stdout, stderr, exitCode } = await execa(
+    "git",
+    ["check-ignore", "--verbose", "-z", "--stdin"],
+    { cwd: root, env, input: paths.join("\0"), reject: false },
+  );
+  // Exit code 1 means that no path is ignored
+  if (exitCode !== 0 && exitCode !== 1) {
+    throw createError(
+      "ENOFILES",
+      "Failed to check the .gitignore rules of the files",
+      stderr,
+    );
+  }
+
+  // Each match is reported as source, line number, pattern and path
+  const ignored = new Map<string, string>();
+  const fields = stdout.split("\0");
+  for (let index = 0; index + 3 < fields.length; index += 4) {
+    const [source, line, pattern, path] = fields.slice(index, index + 4);
+    // Paths matching a negated pattern are reported too, but not ignored
+    if (!pattern.startsWith("!")) {
+      ignored.set(path, `${source}:${line} "${pattern}"`);
+    }
+  }
+  return ignored;
+}
+
+/**
+ * Remove the files matching the ignore options, matched by their local path
+ * Returns the files kept and the files excluded, with the rule excluding them
+ */
+export async function excludeIgnoredFiles(
+  files: ResolvedFile[],
+  options: IgnoreOptions,
+): Promise<{ files: ResolvedFile[]; excluded: ExcludedFile[] }> {
+  const patterns = (options.ignore ?? []).map((pattern) => ({
+    pattern,
+    match: toRepositoryPattern(options.directory, pattern),
+  }));
+  const rules = options.ignoreFile
+    ? await readIgnoreFile(options.ignoreFile, options.cwd, options.directory)
+    : [];
+  const gitIgnored =
+    options.respectGitignore && files.length > 0
+      ? await findGitIgnoredPaths(
+          files.map((file) => file.source),
+          options.root,
+          options.env,
+        )
+      : new Map<string, string>();
+
+  const kept: ResolvedFile[] = [];
+  const excluded: ExcludedFile[] = [];
+  for (const file of files) {
+    const pattern = patterns.find(({ match }) =>
+      micromatch.isMatch(file.source, match, { dot: true }),
+    );
+    const rule = findIgnoreRule(rules, file.source);
+    const reason = pattern
+      ? `ignore "${pattern.pattern}"`
+      : rule
+        ? `${rule.origin} "${rule.pattern}"`
+        : gitIgnored.get(file.source);
+
+    if (reason) {
+      excluded.push({ ...file, rule: reason });
+    } else {
+      kept.push(file);
+    }
+  }
+
+  return { files: kept, excluded };
+}
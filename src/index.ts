@@ -1,6 +1,8 @@
-import { PluginConfig, SemanticReleaseContext } from './types';
+import { CommitResult, PluginConfig, SemanticReleaseContext } from './types';
 import { verifyConditions as verify } from './verify';
+import { verifyRelease as verifyNext } from './verify-release';
 import { prepare as prep } from './prepare';
+import { success as succeed } from './success';
 
 /**
  * Verify that all required conditions are met for the plugin to run
@@ -12,12 +14,33 @@ export async function verifyConditions(
   return verify(pluginConfig, context);
 }
 
+/**
+ * Show the changes that would be committed in semantic-release's dry-run mode
+ */
+export async function verifyRelease(
+  pluginConfig: PluginConfig,
+  context: SemanticReleaseContext
+): Promise<void> {
+  return verifyNext(pluginConfig, context);
+}
+
 /**
  * Commit specified files to GitHub during the prepare step
+ * Resolves with the release commit, or undefined if nothing was committed
  */
 export async function prepare(
   pluginConfig: PluginConfig,
   context: SemanticReleaseContext
-): Promise<void> {
+): Promise<CommitResult | undefined> {
   return prep(pluginConfig, context);
 }
+
+/**
+ * Replace the release tag with an annotated tag when createTag is set
+ */
+export async function success(
+  pluginConfig: PluginConfig,
+  context: SemanticReleaseContext
+): Promise<void> {
+  return succeed(pluginConfig, context);
+}
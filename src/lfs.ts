@@ -0,0 +1,175 @@
+import { createHash } from "crypto";
+import { readFile } from "fs/promises";
+import { join } from "path";
+import {
+  FileBlob,
+  LfsObject,
+  RepoInfo,
+  SemanticReleaseContext,
+} from "./types";
+import { createError } from "./errors";
+
+const LFS_POINTER_VERSION = "https://git-lfs.github.com/spec/v1";
+
+const LFS_HEADERS = {
+  Accept: "application/vnd.git-lfs+json",
+  "Content-Type": "application/vnd.git-lfs+json",
+};
+
+interface LfsAction {
+  href: string;
+  header?: Record<string, string>;
+}
+
+interface LfsBatchObject extends LfsObject {
+  actions?: { upload?: LfsAction; verify?: LfsAction };
+  error?: { code: number; message: string };
+}
+
+/**
+ * Compute the Git LFS object of a file content
+ */
+export function getLfsObject(buffer: Buffer): LfsObject {
+  return {
+    oid: createHash("sha256").update(buffer).digest("hex"),
+    size: buffer.length,
+  };
+}
+
+/**
+ * Create the pointer file committed in place of a file tracked by Git LFS
+ */
+export function createLfsPointer(object: LfsObject): string {
+  return `version ${LFS_POINTER_VERSION}\noid sha256:${object.oid}\nsize ${object.size}\n`;
+}
+
+/**
+ * Check if a file content is already a Git LFS pointer
+ * (e.g. the repository was checked out without fetching LFS objects)
+ */
+export function isLfsPointer(buffer: Buffer): boolean {
+  return (
+    buffer.length < 1024 &&
+    buffer.toString("utf-8").startsWith(`version ${LFS_POINTER_VERSION}\n`)
+  );
+}
+
+/**
+ * Send a request to the Git LFS server, failing with ELFS on error responses
+ */
+async function lfsRequest(
+  url: string,
+  init: RequestInit,
+  message: string,
+): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetch(url, init);
+  } catch (error: any) {
+    throw createError("ELFS", message, error.message);
+  }
+
+  if (!response.ok) {
+    throw createError(
+      "ELFS",
+      message,
+      `${response.status} ${response.statusText}: ${await response.text()}`,
+    );
+  }
+
+  return response;
+}
+
+/**
+ * Upload the Git LFS objects of blobs through the LFS batch API
+ * Objects already stored on the server are skipped
+ */
+export async function uploadLfsObjects(
+  repo: RepoInfo,
+  token: string,
+  blobs: FileBlob[],
+  cwd: string,
+  logger: SemanticReleaseContext["logger"],
+): Promise<void> {
+  // Upload each distinct object once
+  const paths = new Map<string, string>();
+  const objects: LfsObject[] = [];
+  blobs.forEach((blob) => {
+    if (blob.lfs && !paths.has(blob.lfs.oid)) {
+      paths.set(blob.lfs.oid, blob.source ?? blob.path);
+      objects.push({ oid: blob.lfs.oid, size: blob.lfs.size });
+    }
+  });
+  if (objects.length === 0) {
+    return;
+  }
+
+  const authorization = `Basic ${Buffer.from(`x-access-token:${token}`).toString("base64")}`;
+
+  logger.log(`Requesting upload of ${objects.length} Git LFS object(s)...`);
+  const response = await lfsRequest(
+    `https://${repo.host}/${repo.owner}/${repo.repo}.git/info/lfs/objects/batch`,
+    {
+      method: "POST",
+      headers: { ...LFS_HEADERS, Authorization: authorization },
+      body: JSON.stringify({
+        operation: "upload",
+        transfers: ["basic"],
+        ref: { name: `refs/heads/${repo.branch}` },
+        objects,
+      }),
+    },
+    "Failed to request the upload of Git LFS objects",
+  );
+  const batch = (await response.json()) as { objects: LfsBatchObject[] };
+
+  // Upload one object at a time, so that a single large file is held in memory
+  let uploaded = 0;
+  for (const object of batch.objects) {
+    const path = paths.get(object.oid) ?? object.oid;
+    if (object.error) {
+      throw createError(
+        "ELFS",
+        `Git LFS server rejected ${path}`,
+        `${object.error.code}: ${object.error.message}`,
+      );
+    }
+
+    // No upload action means the server already has the object
+    const upload = object.actions?.upload;
+    if (!upload) {
+      continue;
+    }
+
+    await lfsRequest(
+      upload.href,
+      {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/octet-stream",
+          ...upload.header,
+        },
+        body: await readFile(join(cwd, path)),
+      },
+      `Failed to upload Git LFS object of ${path}`,
+    );
+
+    const verify = object.actions?.verify;
+    if (verify) {
+      await lfsRequest(
+        verify.href,
+        {
+          method: "POST",
+          headers: { ...LFS_HEADERS, ...verify.header },
+          body: JSON.stringify({ oid: object.oid, size: object.size }),
+        },
+        `Failed to verify Git LFS object of ${path}`,
+      );
+    }
+    uploaded++;
+  }
+
+  logger.log(
+    `Uploaded ${uploaded} Git LFS object(s), ${objects.length - uploaded} already stored`,
+  );
+}
@@ -0,0 +1,208 @@
+import { StringDecoder } from "string_decoder";
+import {
+  FileBlob,
+  FileDeletion,
+  GitHubTreeItem,
+  GitIdentity,
+  PluginConfig,
+} from "./types";
+import { renderTemplate } from "./template";
+import { formatDelta } from "./utils";
+import { createError } from "./errors";
+
+/**
+ * Longest commit message in bytes by default, longer release notes are
+ * truncated to fit
+ */
+const DEFAULT_MAX_MESSAGE_LENGTH = 65536;
+
+/**
+ * Appended to release notes truncated to fit in the commit message
+ */
+const TRUNCATION_MARKER = "\n\n... (release notes truncated)";
+
+export interface CommitMessageOptions {
+  /**
+   * Option name of the template, for errors
+   */
+  option: string;
+  /**
+   * Files and deletions of the commit, listed when commitFileList is set
+   */
+  files: Array<FileBlob & { sha: string }>;
+  deletions: FileDeletion[];
+  /**
+   * Blobs of the remote branch, to tell added from modified files
+   */
+  remoteBlobs: Map<string, GitHubTreeItem>;
+  /**
+   * Identity signing off the commit when signOff is set
+   */
+  signer?: GitIdentity;
+}
+
+/**
+ * List the changed files of a commit with a git status letter and their size
+ * difference, e.g. "M CHANGELOG.md (+264 bytes)"
+ */
+export function formatFileList(
+  files: CommitMessageOptions["files"],
+  deletions: FileDeletion[],
+  remoteBlobs: Map<string, GitHubTreeItem>,
+): string {
+  const lines = files.map((file) => {
+    const size = Buffer.byteLength(file.content, file.encoding);
+    const remote = remoteBlobs.get(file.path);
+    if (!remote) {
+      return `A ${file.path} (${formatDelta(size)})`;
+    }
+    return remote.size === undefined
+      ? `M ${file.path}`
+      : `M ${file.path} (${formatDelta(size - remote.size)})`;
+  });
+  deletions.forEach((deletion) => {
+    const size = remoteBlobs.get(deletion.path)?.size;
+    lines.push(
+      size === undefined
+        ? `D ${deletion.path}`
+        : `D ${deletion.path} (${formatDelta(-size)})`,
+    );
+  });
+  return lines.join("\n");
+}
+
+/**
+ * Validate the trailers option without rendering it
+ * Keys must be valid git trailer tokens, values templates or lists of templates
+ */
+export function validateTrailers(trailers: unknown): void {
+  if (
+    typeof trailers !== "object" ||
+    trailers === null ||
+    Array.isArray(trailers)
+  ) {
+    throw createError(
+      "EINVALIDCONFIG",
+      'Plugin option "trailers" must be an object',
+    );
+  }
+
+  for (const [key, values] of Object.entries(trailers)) {
+    if (!/^[A-Za-z0-9][A-Za-z0-9-]*$/.test(key)) {
+      throw createError(
+        "EINVALIDCONFIG",
+        `Trailer key "${key}" must only contain letters, digits and dashes`,
+      );
+    }
+    const list = Array.isArray(values) ? values : [values];
+    if (list.length === 0 || list.some((value) => typeof value !== "string")) {
+      throw createError(
+        "EINVALIDCONFIG",
+        `Plugin option "trailers.${key}" must be a string or an array of strings`,
+      );
+    }
+  }
+}
+
+/**
+ * Render the configured trailers, one line per value, and the sign-off
+ */
+export function formatTrailers(
+  trailers: PluginConfig["trailers"] = {},
+  templateContext: Record<string, unknown>,
+  signer?: GitIdentity,
+): string[] {
+  const lines = Object.entries(trailers).flatMap(([key, values]) =>
+    (Array.isArray(values) ? values : [values]).map(
+      (value) =>
+        `${key}: ${renderTemplate(value, templateContext, `trailers.${key}`)}`,
+    ),
+  );
+  if (signer) {
+    lines.push(`Signed-off-by: ${signer.name} <${signer.email}>`);
+  }
+  return lines;
+}
+
+/**
+ * Cut release notes to a number of bytes at a line boundary, without
+ * splitting a character
+ */
+function truncateNotes(notes: string, bytes: number): string {
+  // The decoder only returns complete characters
+  let cut = new StringDecoder("utf8").write(
+    Buffer.from(notes).subarray(0, Math.max(bytes, 0)),
+  );
+  const lineEnd = cut.lastIndexOf("\n");
+  if (lineEnd > 0) {
+    cut = cut.slice(0, lineEnd);
+  }
+  return `${cut.trimEnd()}${TRUNCATION_MARKER}`;
+}
+
+/**
+ * Build a commit message: the rendered template, the list of changed files
+ * and the trailers, each in its own paragraph
+ * Release notes are truncated when the message exceeds maxMessageLength
+ */
+export function buildCommitMessage(
+  template: string,
+  templateContext: Record<string, unknown>,
+  pluginConfig: PluginConfig,
+  options: CommitMessageOptions,
+): string {
+  const maxLength = pluginConfig.maxMessageLength ?? DEFAULT_MAX_MESSAGE_LENGTH;
+  const fileList = pluginConfig.commitFileList
+    ? formatFileList(options.files, options.deletions, options.remoteBlobs)
+    : "";
+  const trailers = formatTrailers(
+    pluginConfig.trailers,
+    templateContext,
+    pluginConfig.signOff ? options.signer : undefined,
+  ).join("\n");
+
+  const render = (data: Record<string, unknown>) => {
+    const message = renderTemplate(template, data, options.option);
+    return fileList || trailers
+      ? [message.trimEnd(), fileList, trailers].filter(Boolean).join("\n\n")
+      : message;
+  };
+
+  let message = render(templateContext);
+  const nextRelease = templateContext.nextRelease as
+    | { notes?: string }
+    | undefined;
+  const notes = nextRelease?.notes ?? "";
+
+  const renderNotes = (text: string) =>
+    render({
+      ...templateContext,
+      nextRelease: { ...nextRelease, notes: text },
+    });
+
+  // Notes can appear several times in the template, each copy takes its share
+  // of the overshoot, shorten them until the message fits or nothing is left
+  const copies =
+    Buffer.byteLength(message) > maxLength && notes
+      ? Math.round(
+          (Buffer.byteLength(message) - Buffer.byteLength(renderNotes(""))) /
+            Buffer.byteLength(notes),
+        )
+      : 0;
+  let bytes = Buffer.byteLength(notes) - TRUNCATION_MARKER.length;
+  while (copies > 0 && Buffer.byteLength(message) > maxLength && bytes > 0) {
+    bytes -= Math.ceil((Buffer.byteLength(message) - maxLength) / copies);
+    message = renderNotes(truncateNotes(notes, bytes));
+  }
+
+  // Only the notes are truncated, the rest of the message must fit as it is
+  if (Buffer.byteLength(message) > maxLength) {
+    throw createError(
+      "EINVALIDCONFIG",
+      `Plugin option "${options.option}" renders a commit message of ${Buffer.byteLength(message)} bytes, over maxMessageLength (${maxLength})`,
+      "Only ${nextRelease.notes} is truncated, shorten the rest of the message or raise maxMessageLength",
+    );
+  }
+
+  return message;
+}
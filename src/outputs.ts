@@ -0,0 +1,98 @@
+import { appendFile, mkdir, writeFile } from "fs/promises";
+import { dirname, resolve } from "path";
+import {
+  CommitResult,
+  NextRelease,
+  SemanticReleaseContext,
+} from "./types";
+import { createError } from "./errors";
+
+/**
+ * Format the commit as a Markdown job summary
+ */
+function formatSummary(result: CommitResult): string {
+  const lines = [
+    "### Release commit",
+    "",
+    `Commit [\`${result.sha.slice(0, 7)}\`](${result.url}) on \`${result.branch}\` of ${result.repository}`,
+    "",
+  ];
+
+  if (result.files.length > 0 || result.deletedFiles.length > 0) {
+    lines.push("| File | Change |", "|------|--------|");
+    result.files.forEach((path) => lines.push(`| \`${path}\` | updated |`));
+    result.deletedFiles.forEach((path) =>
+      lines.push(`| \`${path}\` | deleted |`),
+    );
+    lines.push("");
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Write the commit to the step outputs and job summary when running in GitHub Actions
+ */
+export async function writeActionsOutputs(
+  result: CommitResult,
+  env: SemanticReleaseContext["env"],
+): Promise<void> {
+  try {
+    if (env.GITHUB_OUTPUT) {
+      const outputs = {
+        commit_sha: result.sha,
+        commit_url: result.url,
+        tree_sha: result.treeSha,
+        changed_files: JSON.stringify(result.files),
+        deleted_files: JSON.stringify(result.deletedFiles),
+      };
+      await appendFile(
+        env.GITHUB_OUTPUT,
+        Object.entries(outputs)
+          .map(([name, value]) => `${name}=${value}\n`)
+          .join(""),
+      );
+    }
+
+    if (env.GITHUB_STEP_SUMMARY) {
+      await appendFile(env.GITHUB_STEP_SUMMARY, formatSummary(result));
+    }
+  } catch (error: any) {
+    throw createError(
+      "EOUTPUT",
+      "Failed to write the GitHub Actions step outputs",
+      error.message,
+    );
+  }
+}
+
+/**
+ * Write the commit and the release to a JSON manifest file
+ * Returns the absolute path of the manifest
+ */
+export async function writeManifest(
+  path: string,
+  cwd: string,
+  result: CommitResult,
+  nextRelease?: NextRelease,
+): Promise<string> {
+  const fullPath = resolve(cwd, path);
+  const manifest = {
+    ...result,
+    version: nextRelease?.version,
+    gitTag: nextRelease?.gitTag,
+  };
+
+  try {
+    await mkdir(dirname(fullPath), { recursive: true });
+    await writeFile(fullPath, `${JSON.stringify(manifest, null, 2)}\n`);
+  } catch (error: any) {
+    throw createError(
+      "EOUTPUT",
+      `Failed to write the manifest ${path}`,
+      error.message,
+    );
+  }
+
+  return fullPath;
+}
@@ -1,8 +1,54 @@
-import { PluginConfig, SemanticReleaseContext } from "./types";
+import {
+  CommitGroup,
+  CommitResult,
+  FileBlob,
+  FileDeletion,
+  PluginConfig,
+  ResolvedFile,
+  SemanticReleaseContext,
+} from "./types";
 import { GitHubClient } from "./github";
-import { resolveFiles, readFilesAsBlobs } from "./files";
-import { getAuthToken, getRepoInfo, getGitIdentity } from "./utils";
-import { execa } from "execa";
+import {
+  resolveFiles,
+  formatFilePattern,
+  isInlineFile,
+  toRepositoryPath,
+  toRepositoryPattern,
+  readFilesAsBlobs,
+  resolveDeletions,
+  inheritModes,
+  checkFileSizes,
+} from "./files";
+import { getTextConversion, readPathAttributes } from "./attributes";
+import { excludeIgnoredFiles } from "./ignore";
+import { applyReplacements, formatReplacement } from "./replacements";
+import { uploadLfsObjects } from "./lfs";
+import {
+  getAutoCrlf,
+  locateRepository,
+  syncLocalRepository,
+  checkLocalChanges,
+} from "./sync";
+import { logDryRunChanges } from "./dry-run";
+import { writeActionsOutputs, writeManifest } from "./outputs";
+import { createError } from "./errors";
+import { CommitBackend, CommitChanges, CommitRequest } from "./backend";
+import { RestCommitBackend } from "./rest-backend";
+import {
+  GraphQLCommitBackend,
+  getGraphQLFallbackReason,
+} from "./graphql-backend";
+import { getTemplateContext, renderTemplate } from "./template";
+import { commitViaPullRequest } from "./pull-request";
+import { buildCommitMessage } from "./message";
+import { resolveAuthToken } from "./auth";
+import {
+  getApiUrl,
+  getRepoInfo,
+  getGitIdentity,
+  getBlobSha,
+  getCommitMessageTemplate,
+} from "./utils";
 
 /**
  * Prepare and commit files to GitHub
@@ -10,12 +56,11 @@ import { execa } from "execa";
 export async function prepare(
   pluginConfig: PluginConfig,
   context: SemanticReleaseContext,
-): Promise<void> {
+): Promise<CommitResult | undefined> {
   const { logger, env, cwd = process.cwd(), nextRelease } = context;
-  const isDryRun = pluginConfig.dryRun || false;
+  const isDryRun = !!pluginConfig.dryRun;
 
-  // Get auth token and repo info
-  const token = getAuthToken(env, pluginConfig.githubToken);
+  // Get repo info
   const repoInfo = getRepoInfo(context);
 
   logger.log(
@@ -23,42 +68,199 @@ export async function prepare(
   );
 
   // Determine API URL for GitHub Enterprise if not github.com
-  const apiUrl =
-    repoInfo.host === "github.com"
-      ? undefined
-      : `https://${repoInfo.host}/api/v3`;
+  const apiUrl = getApiUrl(repoInfo.host);
 
   if (apiUrl) {
     logger.log(`Using custom GitHub API URL: ${apiUrl}`);
   }
 
-  // Initialize GitHub client
-  const github = new GitHubClient(token, apiUrl);
+  // Paths are relative to the working directory, which can be a package of a
+  // monorepo, while the commit and local files are relative to the git root
+  const { root, directory } = await locateRepository(cwd, env);
+  if (directory) {
+    logger.log(`Resolving paths relative to ${directory} in the repository`);
+  }
+  const toPatterns = (patterns?: string[]) =>
+    patterns?.map((pattern) => toRepositoryPattern(directory, pattern));
 
-  // Resolve file patterns to actual files
-  logger.log(`Resolving file patterns: ${pluginConfig.files.join(", ")}`);
-  const filePaths = await resolveFiles(pluginConfig.files, cwd);
+  // Each group of files is committed separately, in a single commit by default
+  const groups: CommitGroup[] = pluginConfig.commits ?? [
+    {
+      files: pluginConfig.files ?? [],
+      message: getCommitMessageTemplate(pluginConfig, context),
+    },
+  ];
 
-  if (filePaths.length === 0) {
-    logger.warn("No files matched the provided patterns - skipping commit");
-    return;
+  // Resolve file patterns to actual files, and render the content of inline
+  // files, which replace the local files matched at the same path
+  const matchedFiles: ResolvedFile[] = [];
+  const inlineBlobs: FileBlob[] = [];
+  const groupIndexes = new Map<string, number>();
+  const overlapping = new Set<string>();
+  for (const [index, group] of groups.entries()) {
+    logger.log(
+      `Resolving file patterns: ${group.files.map(formatFilePattern).join(", ")}`,
+    );
+    const inlinePaths = new Set<string>();
+    for (const [fileIndex, file] of group.files.entries()) {
+      if (!isInlineFile(file)) {
+        continue;
+      }
+      const path = toRepositoryPath(directory, file.path);
+      inlinePaths.add(path);
+      if (groupIndexes.has(path)) {
+        overlapping.add(path);
+        continue;
+      }
+      groupIndexes.set(path, index);
+      inlineBlobs.push({
+        path,
+        content: renderTemplate(
+          file.content,
+          getTemplateContext(context, repoInfo),
+          pluginConfig.commits
+            ? `commits[${index}].files[${fileIndex}].content`
+            : `files[${fileIndex}].content`,
+        ),
+        encoding: "utf-8",
+        inline: true,
+      });
+    }
+    for (const file of await resolveFiles(group.files, cwd, directory)) {
+      if (inlinePaths.has(file.path)) {
+        continue;
+      }
+      if (groupIndexes.has(file.path)) {
+        overlapping.add(file.path);
+        continue;
+      }
+      groupIndexes.set(file.path, index);
+      matchedFiles.push(file);
+    }
   }
+  if (overlapping.size > 0) {
+    throw createError(
+      "EINVALIDCONFIG",
+      "Files cannot be part of several commits",
+      [...overlapping].join(", "),
+    );
+  }
+
+  // Files matching ignore rules are neither committed nor deleted
+  const { files: resolvedFiles, excluded } = await excludeIgnoredFiles(
+    matchedFiles,
+    {
+      ignore: pluginConfig.ignore,
+      ignoreFile: pluginConfig.ignoreFile,
+      respectGitignore: pluginConfig.respectGitignore,
+      cwd,
+      directory,
+      root,
+      env,
+    },
+  );
+  if (excluded.length > 0 && !isDryRun) {
+    logger.log(`Excluded ${excluded.length} file(s) matching ignore rules`);
+    excluded.forEach((file) => {
+      logger.log(`  - ${file.source} (${file.rule})`);
+    });
+  }
+  const filePaths = resolvedFiles.map((file) => file.path);
+  const hasDeletions =
+    (pluginConfig.remove?.length ?? 0) > 0 || !!pluginConfig.deleteMissing;
+
+  if (filePaths.length === 0 && inlineBlobs.length === 0) {
+    if (!hasDeletions) {
+      logger.warn("No files matched the provided patterns - skipping commit");
+      return;
+    }
+    logger.log("No files matched the provided patterns - only deleting files");
+  } else {
+    const described = [
+      ...resolvedFiles.map((file) =>
+        file.source === file.path
+          ? file.path
+          : `${file.source} -> ${file.path}`,
+      ),
+      ...inlineBlobs.map((blob) => `${blob.path} (inline)`),
+    ];
+    logger.log(`Resolved ${described.length} file(s): ${described.join(", ")}`);
+  }
+
+  // Files tracked by Git LFS are uploaded to the LFS server and committed as pointers
+  const attributes = await readPathAttributes(filePaths, root, env);
+  const lfsPaths = filePaths.filter(
+    (path) => attributes.get(path)?.filter === "lfs",
+  );
+  if (lfsPaths.length > 0) {
+    logger.log(`Tracked by Git LFS: ${lfsPaths.join(", ")}`);
+  }
+
+  // Line endings of text files are normalized to LF, like git add does
+  const autocrlf = await getAutoCrlf(root, env);
+  const textConversions = new Map(
+    filePaths.map((path) => [
+      path,
+      getTextConversion(attributes.get(path) ?? {}, autocrlf),
+    ]),
+  );
+  const pathsWithConversion = (conversion: "text" | "auto") =>
+    filePaths.filter((path) => textConversions.get(path) === conversion);
 
-  logger.log(`Resolved ${filePaths.length} file(s): ${filePaths.join(", ")}`);
+  // Check file sizes before reading the files and calling the API
+  await checkFileSizes(resolvedFiles, root, {
+    maxFileSize: pluginConfig.maxFileSize,
+    maxTotalSize: pluginConfig.maxTotalSize,
+    lfsPaths,
+  });
 
   // Read file contents
   logger.log("Reading file contents...");
-  const fileBlobs = await readFilesAsBlobs(filePaths, cwd);
+  const localBlobs = await readFilesAsBlobs(resolvedFiles, root, {
+    forceBinary: toPatterns(pluginConfig.forceBinary),
+    forceText: toPatterns(pluginConfig.forceText),
+    lfsPaths,
+    textPaths: pathsWithConversion("text"),
+    autoTextPaths: pathsWithConversion("auto"),
+  });
+  const normalizedPaths = localBlobs
+    .filter((blob) => blob.normalized)
+    .map((blob) => blob.path);
+  if (normalizedPaths.length > 0) {
+    logger.log(
+      `Normalized CRLF line endings to LF: ${normalizedPaths.join(", ")}`,
+    );
+  }
+  let fileBlobs = [...localBlobs, ...inlineBlobs];
 
-  if (isDryRun) {
-    logger.log("[DRY RUN] Would commit the following files:");
-    fileBlobs.forEach((blob) => {
-      logger.log(`  - ${blob.path} (${blob.encoding})`);
+  // Replacements only change the committed content, not the local files
+  if (pluginConfig.replacements?.length) {
+    const replaced = applyReplacements(
+      fileBlobs,
+      pluginConfig.replacements,
+      directory,
+      getTemplateContext(context, repoInfo),
+    );
+    fileBlobs = replaced.blobs;
+    pluginConfig.replacements.forEach((replacement, index) => {
+      const { files, count } = replaced.results[index];
+      const location = files.length > 0 ? ` in ${files.join(", ")}` : "";
+      logger.log(
+        `Replaced ${count} occurrence(s) of ${formatReplacement(replacement)}${location}`,
+      );
     });
-    logger.log("[DRY RUN] Skipping actual commit creation");
-    return;
   }
 
+  // Get auth token, minting a GitHub App installation token if configured
+  const token = await resolveAuthToken(pluginConfig, context, repoInfo, apiUrl);
+
+  // Initialize GitHub client
+  const github = new GitHubClient(token, apiUrl, {
+    maxConcurrency: pluginConfig.maxConcurrency,
+    maxRetries: pluginConfig.maxRetries,
+    logger,
+  });
+
   // Get current ref
   logger.log(`Getting current ref for branch ${repoInfo.branch}...`);
   const ref = await github.getRef(repoInfo);
@@ -70,53 +272,89 @@ export async function prepare(
   const baseTreeSha = currentCommit.tree.sha;
   logger.log(`Base tree: ${baseTreeSha}`);
 
-  // Create blobs for each file
-  logger.log(`Creating ${fileBlobs.length} blob(s)...`);
-  const blobsWithSha = await Promise.all(
-    fileBlobs.map(async (blob) => {
-      const githubBlob = await github.createBlob(
-        repoInfo,
-        blob.content,
-        blob.encoding,
-      );
-      return {
-        path: blob.path,
-        sha: githubBlob.sha,
-      };
-    }),
+  // Get the full base tree to detect unchanged files, deletions and modes
+  const baseTree = await github.getTree(repoInfo, baseTreeSha);
+  if (baseTree.truncated) {
+    logger.warn(
+      "Base tree is too large to be listed completely - some files may be missed",
+    );
+  }
+
+  if (pluginConfig.inheritMode) {
+    logger.log("Using file modes recorded in the remote branch");
+    fileBlobs = inheritModes(fileBlobs, baseTree.tree);
+  }
+
+  // Missing files are deleted by the commit of their pattern, removed files by the last commit
+  const groupDeletions: FileDeletion[][] = groups.map(() => []);
+  let deletions: FileDeletion[] = [];
+  if (hasDeletions) {
+    const keptPaths = [
+      ...fileBlobs.map((blob) => blob.path),
+      ...excluded.map((file) => file.path),
+    ];
+    for (const [index, group] of groups.entries()) {
+      const deleted = new Set(deletions.map((deletion) => deletion.path));
+      groupDeletions[index] = resolveDeletions(baseTree.tree, keptPaths, {
+        files: group.files,
+        remove: index === groups.length - 1 ? pluginConfig.remove : undefined,
+        deleteMissing: pluginConfig.deleteMissing,
+        directory,
+      }).filter((deletion) => !deleted.has(deletion.path));
+      deletions = [...deletions, ...groupDeletions[index]];
+    }
+    if (!isDryRun) {
+      logger.log(`Deleting ${deletions.length} file(s)`);
+      deletions.forEach((deletion) => {
+        logger.log(`  - ${deletion.path} (${deletion.reason})`);
+      });
+    }
+  }
+
+  // Only files whose content or mode differs from the base tree need a tree entry
+  const remoteBlobs = new Map(
+    baseTree.tree
+      .filter((item) => item.type === "blob")
+      .map((item) => [item.path, item]),
   );
+  const hashedBlobs = fileBlobs.map((blob) => ({
+    ...blob,
+    sha: getBlobSha(blob),
+  }));
+  const changedBlobs = hashedBlobs.filter((blob) => {
+    const remote = remoteBlobs.get(blob.path);
+    return (
+      !remote ||
+      remote.sha !== blob.sha ||
+      remote.mode !== (blob.mode ?? "100644")
+    );
+  });
 
-  logger.log(`Created ${blobsWithSha.length} blob(s)`);
+  logger.log(
+    `${changedBlobs.length} of ${fileBlobs.length} file(s) changed compared to the base tree`,
+  );
 
-  // Create tree with updated files
-  logger.log("Creating tree...");
-  const tree = await github.createTree(repoInfo, baseTreeSha, blobsWithSha);
-  logger.log(`Created tree: ${tree.sha}`);
+  if (isDryRun) {
+    await logDryRunChanges(
+      github,
+      repoInfo,
+      { files: hashedBlobs, deletions, excluded, baseTree },
+      { diff: !!pluginConfig.dryRunDiff },
+      logger,
+    );
+  }
 
-  // Check if tree is different from base tree (idempotency)
-  if (tree.sha === baseTreeSha) {
+  if (changedBlobs.length === 0 && deletions.length === 0) {
     logger.log(
       "No changes detected - tree is identical to base tree. Skipping commit.",
     );
     return;
   }
 
-  // Prepare commit message
-  let commitMessage =
-    pluginConfig.commitMessage ||
-    `chore(release): \${nextRelease.version} [skip ci]`;
-
-  // Replace template variables
-  if (commitMessage && nextRelease) {
-    commitMessage = commitMessage
-      .replace(/\$\{nextRelease\.version\}/g, nextRelease.version)
-      .replace(/\$\{nextRelease\.gitTag\}/g, nextRelease.gitTag)
-      .replace(/\$\{nextRelease\.gitHead\}/g, nextRelease.gitHead)
-      .replace(/\$\{nextRelease\.notes\}/g, nextRelease.notes || "");
-  } else if (!nextRelease) {
-    // Fallback if no nextRelease context
-    commitMessage = commitMessage || "chore(release): update [skip ci]";
-  }
+  const templateContext = getTemplateContext(context, repoInfo, {
+    files: changedBlobs.map((blob) => blob.path),
+    deletedFiles: deletions.map((deletion) => deletion.path),
+  });
 
   // Get author/committer info if provided
   // Note: If not provided, they remain undefined and GitHub will auto-sign commits
@@ -144,60 +382,196 @@ export async function prepare(
     );
   }
 
-  // Create commit
-  logger.log("Creating commit...");
-  const commit = await github.createCommit(
-    repoInfo,
-    commitMessage,
-    tree.sha,
-    [currentCommitSha],
-    author,
+  // Prepare the commit messages, skipping commits without changes
+  const commits: CommitChanges[] = [];
+  for (const [index, group] of groups.entries()) {
+    const files = changedBlobs.filter(
+      (blob) => groupIndexes.get(blob.path) === index,
+    );
+    const deleted = groupDeletions[index];
+    if (files.length === 0 && deleted.length === 0) {
+      logger.log(`No changes for commit ${index + 1} - skipping it`);
+      continue;
+    }
+
+    const message = buildCommitMessage(
+      group.message,
+      getTemplateContext(context, repoInfo, {
+        files: files.map((blob) => blob.path),
+        deletedFiles: deleted.map((deletion) => deletion.path),
+      }),
+      pluginConfig,
+      {
+        option: pluginConfig.commits
+          ? `commits[${index}].message`
+          : "commitMessage",
+        files,
+        deletions: deleted,
+        remoteBlobs,
+        // The committer defaults to the author, like with git commit --signoff
+        signer: committer ?? group.author ?? author,
+      },
+    );
+    if (group.author) {
+      logger.log(
+        `Commit ${index + 1} authored by ${group.author.name} <${group.author.email}>`,
+      );
+    }
+    commits.push({
+      files,
+      deletions: deleted,
+      message,
+      author: group.author ?? author,
+    });
+  }
+
+  if (isDryRun) {
+    commits.forEach((commit, index) => {
+      const label =
+        commits.length > 1 ? ` (${index + 1}/${commits.length})` : "";
+      logger.log(`[DRY RUN] Commit message${label}:\n${commit.message}`);
+    });
+    logger.log("[DRY RUN] Skipping actual commit creation");
+    return;
+  }
+
+  // A failed local update must not leave a release commit without a tag
+  const localSync = {
+    mode: pluginConfig.localSync ?? "reset",
+    files: fileBlobs,
+    deletions: deletions.map((deletion) => deletion.path),
+    cwd: root,
+    env,
+  };
+  await checkLocalChanges(localSync);
+
+  // LFS objects must be stored before the pointers referencing them are committed
+  await uploadLfsObjects(repoInfo, token, changedBlobs, root, logger);
+
+  const request: CommitRequest = {
+    repo: repoInfo,
+    parentSha: currentCommitSha,
+    baseTree,
+    commits,
+    paths: [
+      ...fileBlobs.map((blob) => blob.path),
+      ...deletions.map((deletion) => deletion.path),
+    ],
     committer,
-  );
+    maxRebaseRetries: pluginConfig.maxRebaseRetries ?? 3,
+  };
+
+  const restBackend = new RestCommitBackend(github, logger);
+  const fallbackReason =
+    pluginConfig.api === "graphql"
+      ? getGraphQLFallbackReason(request, pluginConfig)
+      : undefined;
+  if (fallbackReason) {
+    logger.log(`Falling back to the REST API: ${fallbackReason}`);
+  }
+
+  let releaseSha: string;
+  let treeSha: string;
+  if (pluginConfig.mode === "pull-request") {
+    // Create commit on top of the current head and merge it through a pull request
+    const commit = await restBackend.createCommit(request);
+    if (!commit) {
+      logger.log(
+        "No changes detected - tree is identical to base tree. Skipping commit.",
+      );
+      return;
+    }
 
-  logger.log(`Created commit: ${commit.sha}`);
-
-  // Update ref to point to new commit
-  logger.log(`Updating ref ${repoInfo.branch} to ${commit.sha}...`);
-  await github.updateRef(repoInfo, commit.sha);
-
-      // Fetch the new commit into the local repository
-      // This is critical for semantic-release to include this commit in the release tag
-      logger.log("Fetching new commit into local repository...");
-      try {
-        // Configure git to use the GitHub token for this fetch
-        // We construct the URL manually to ensure we use HTTPS with the token
-        // This supports both GitHub.com and GitHub Enterprise (GHES)
-        const authenticatedUrl = `https://x-access-token:${token}@${repoInfo.host}/${repoInfo.owner}/${repoInfo.repo}.git`;
-  
-        // Fetch the new commit directly from the authenticated URL without modifying "origin"
-        // This prevents conflicts with semantic-release's internal git operations
-        await execa("git", ["fetch", authenticatedUrl, repoInfo.branch], {
-          cwd,
-          env,
-        });
-  
-        // Reset to the fetched commit (which is now in FETCH_HEAD)
-        await execa("git", ["reset", "--hard", "FETCH_HEAD"], {
-          cwd,
-          env,
-        });
-  
-        logger.log(`Local repository updated to ${commit.sha}`);
-      } catch (error: any) {    logger.error(
-      "Failed to fetch new commit into local repository:",
-      error.message,
+    releaseSha = await commitViaPullRequest(
+      github,
+      repoInfo,
+      commit.sha,
+      {
+        branch: renderTemplate(
+          pluginConfig.pullRequestBranch ||
+            "semantic-release/release-${nextRelease.version}",
+          templateContext,
+          "pullRequestBranch",
+        ),
+        title: renderTemplate(
+          pluginConfig.pullRequestTitle ||
+            "chore(release): ${nextRelease.version}",
+          templateContext,
+          "pullRequestTitle",
+        ),
+        body: renderTemplate(
+          pluginConfig.pullRequestBody || "${nextRelease.notes}",
+          templateContext,
+          "pullRequestBody",
+        ),
+        merge: pluginConfig.pullRequestMerge ?? "direct",
+        mergeMethod: pluginConfig.pullRequestMergeMethod ?? "squash",
+        // The release commit is the last one, with its trailers and sign-off
+        message: commits[commits.length - 1].message,
+        timeout: pluginConfig.pullRequestTimeout ?? 600,
+      },
+      logger,
     );
-    throw error;
+    // The merged commit differs from the created one unless fast-forwarded
+    treeSha = (await github.getCommit(repoInfo, releaseSha)).tree.sha;
+  } else {
+    // Create commit and move the branch, rebasing onto the new head if the branch moved
+    const backend: CommitBackend =
+      pluginConfig.api === "graphql" && !fallbackReason
+        ? new GraphQLCommitBackend(github, logger)
+        : restBackend;
+    const commit = await backend.commitOnBranch(request);
+    if (!commit) {
+      logger.log(
+        "No changes detected - tree is identical to base tree. Skipping commit.",
+      );
+      return;
+    }
+
+    releaseSha = commit.sha;
+    treeSha = commit.tree.sha;
   }
 
+  // Bring the new commit into the local repository
+  // This is critical for semantic-release to include this commit in the release tag
+  await syncLocalRepository({
+    ...localSync,
+    repo: repoInfo,
+    token,
+    sha: releaseSha,
+    logger,
+  });
+
   // Update nextRelease.gitHead so semantic-release uses the correct commit
   if (nextRelease) {
-    nextRelease.gitHead = commit.sha;
-    logger.log(`Updated nextRelease.gitHead to ${commit.sha}`);
+    nextRelease.gitHead = releaseSha;
+    logger.log(`Updated nextRelease.gitHead to ${releaseSha}`);
   }
 
   logger.log(
-    `✓ Successfully committed ${fileBlobs.length} file(s) in commit ${commit.sha}`,
+    `✓ Successfully committed ${changedBlobs.length} file(s) and deleted ${deletions.length} file(s) in ${commits.length > 1 ? `${commits.length} commits ending with` : "commit"} ${releaseSha}`,
   );
+
+  const result: CommitResult = {
+    sha: releaseSha,
+    url: `https://${repoInfo.host}/${repoInfo.owner}/${repoInfo.repo}/commit/${releaseSha}`,
+    treeSha,
+    repository: `${repoInfo.owner}/${repoInfo.repo}`,
+    branch: repoInfo.branch,
+    files: changedBlobs.map((blob) => blob.path),
+    deletedFiles: deletions.map((deletion) => deletion.path),
+  };
+
+  await writeActionsOutputs(result, env);
+  if (pluginConfig.manifest) {
+    const manifestPath = await writeManifest(
+      pluginConfig.manifest,
+      cwd,
+      result,
+      nextRelease,
+    );
+    logger.log(`Wrote release commit manifest to ${manifestPath}`);
+  }
+
+  return result;
 }
@@ -0,0 +1,130 @@
+import { GitHubClient } from "./github";
+import { RepoInfo, SemanticReleaseContext } from "./types";
+import { createError } from "./errors";
+import { sleep } from "./utils";
+
+export interface PullRequestOptions {
+  branch: string;
+  title: string;
+  body: string;
+  merge: "direct" | "auto" | "none";
+  mergeMethod: "merge" | "squash" | "rebase";
+  /**
+   * Message of the commit created by the merge, so that it keeps the rendered
+   * commit message, e.g. its [skip ci]
+   */
+  message: string;
+  /**
+   * Maximum time to wait for the merge, in seconds
+   */
+  timeout: number;
+}
+
+/**
+ * Interval between two checks of the pull request state
+ */
+const POLL_INTERVAL = 10000;
+
+/**
+ * Add a commit to the release branch through a pull request from a temporary branch
+ * Returns the SHA of the commit that landed on the release branch
+ */
+export async function commitViaPullRequest(
+  github: GitHubClient,
+  repoInfo: RepoInfo,
+  commitSha: string,
+  options: PullRequestOptions,
+  logger: SemanticReleaseContext["logger"],
+): Promise<string> {
+  logger.log(`Creating branch ${options.branch} at ${commitSha}...`);
+  await github.createBranch(repoInfo, options.branch, commitSha);
+
+  // A rebase keeps the messages of the commits, only the other methods create
+  // a commit whose message can be set
+  const message =
+    options.mergeMethod === "rebase" ? undefined : options.message;
+
+  try {
+    const pullRequest = await github.createPullRequest(
+      repoInfo,
+      options.branch,
+      options.title,
+      options.body,
+    );
+    logger.log(`Opened pull request #${pullRequest.number}: ${pullRequest.url}`);
+
+    if (options.merge === "direct") {
+      logger.log(
+        `Merging pull request #${pullRequest.number} (${options.mergeMethod})...`,
+      );
+      await github.mergePullRequest(
+        repoInfo,
+        pullRequest.number,
+        options.mergeMethod,
+        message,
+      );
+    } else if (options.merge === "auto") {
+      logger.log(`Enabling auto-merge on pull request #${pullRequest.number}...`);
+      await github.enableAutoMerge(pullRequest, options.mergeMethod, message);
+    }
+
+    return await waitForMerge(
+      github,
+      repoInfo,
+      pullRequest.number,
+      options.timeout,
+      logger,
+    );
+  } finally {
+    // The branch may already be gone if the repository deletes merged branches
+    try {
+      await github.deleteBranch(repoInfo, options.branch);
+      logger.log(`Deleted branch ${options.branch}`);
+    } catch (error: any) {
+      logger.warn(`Failed to delete branch ${options.branch}: ${error.message}`);
+    }
+  }
+}
+
+/**
+ * Wait until a pull request is merged and return its merge commit SHA
+ */
+async function waitForMerge(
+  github: GitHubClient,
+  repoInfo: RepoInfo,
+  number: number,
+  timeout: number,
+  logger: SemanticReleaseContext["logger"],
+): Promise<string> {
+  const deadline = Date.now() + timeout * 1000;
+
+  for (;;) {
+    const pullRequest = await github.getPullRequest(repoInfo, number);
+
+    if (pullRequest.merged && pullRequest.mergeCommitSha) {
+      logger.log(
+        `Pull request #${number} merged in commit ${pullRequest.mergeCommitSha}`,
+      );
+      return pullRequest.mergeCommitSha;
+    }
+
+    if (pullRequest.state === "closed") {
+      throw createError(
+        "EPULLREQUEST",
+        `Pull request #${number} was closed without being merged`,
+      );
+    }
+
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) {
+      throw createError(
+        "EPULLREQUEST",
+        `Pull request #${number} was not merged within ${timeout}s`,
+        pullRequest.url,
+      );
+    }
+
+    logger.log(`Waiting for pull request #${number} to be merged...`);
+    await sleep(Math.min(POLL_INTERVAL, remaining));
+  }
+}
@@ -0,0 +1,204 @@
+import micromatch from "micromatch";
+import { FileBlob, Replacement } from "./types";
+import { toRepositoryPattern } from "./files";
+import { renderTemplate } from "./template";
+import { checkKeys, getBlobSha } from "./utils";
+import { createError } from "./errors";
+
+export interface ReplacementResult {
+  /**
+   * Paths of the files modified by the replacement
+   */
+  files: string[];
+  /**
+   * Number of occurrences replaced in all files
+   */
+  count: number;
+}
+
+/**
+ * Format a replacement for logs and errors
+ */
+export function formatReplacement(replacement: Replacement): string {
+  return replacement.regex !== undefined
+    ? `/${replacement.regex}/`
+    : JSON.stringify(replacement.from);
+}
+
+/**
+ * Validate the replacements option without applying it
+ */
+export function validateReplacements(replacements: unknown): void {
+  if (!Array.isArray(replacements)) {
+    throw createError(
+      "EINVALIDCONFIG",
+      'Plugin option "replacements" must be an array',
+    );
+  }
+
+  replacements.forEach((value, index) => {
+    const option = `replacements[${index}]`;
+    const replacement = value as Partial<Replacement> | null;
+    if (typeof replacement !== "object" || replacement === null) {
+      throw createError(
+        "EINVALIDCONFIG",
+        `Plugin option "${option}" must be an object`,
+      );
+    }
+    checkKeys(
+      replacement,
+      ["files", "from", "regex", "to", "count", "required"],
+      option,
+    );
+
+    if (
+      !Array.isArray(replacement.files) ||
+      replacement.files.length === 0 ||
+      replacement.files.some((file) => typeof file !== "string")
+    ) {
+      throw createError(
+        "EINVALIDCONFIG",
+        `Plugin option "${option}.files" must be a non-empty array of glob patterns`,
+      );
+    }
+    if (
+      (replacement.from === undefined) === (replacement.regex === undefined)
+    ) {
+      throw createError(
+        "EINVALIDCONFIG",
+        `Plugin option "${option}" must have either "from" or "regex"`,
+      );
+    }
+    const search = replacement.from ?? replacement.regex;
+    if (typeof search !== "string" || !search) {
+      throw createError(
+        "EINVALIDCONFIG",
+        `Plugin option "${option}.${replacement.from !== undefined ? "from" : "regex"}" must be a non-empty string`,
+      );
+    }
+    if (replacement.regex !== undefined) {
+      try {
+        new RegExp(replacement.regex, "gm");
+      } catch (error: any) {
+        throw createError(
+          "EINVALIDCONFIG",
+          `Plugin option "${option}.regex" is not a valid regular expression`,
+          error.message,
+        );
+      }
+    }
+    if (typeof replacement.to !== "string") {
+      throw createError(
+        "EINVALIDCONFIG",
+        `Plugin option "${option}.to" must be a string`,
+      );
+    }
+    if (
+      replacement.count !== undefined &&
+      (!Number.isInteger(replacement.count) || replacement.count < 1)
+    ) {
+      throw createError(
+        "EINVALIDCONFIG",
+        `Plugin option "${option}.count" must be a positive integer`,
+      );
+    }
+    if (
+      replacement.required !== undefined &&
+      typeof replacement.required !== "boolean"
+    ) {
+      throw createError(
+        "EINVALIDCONFIG",
+        `Plugin option "${option}.required" must be a boolean`,
+      );
+    }
+  });
+}
+
+/**
+ * Replace the occurrences of a replacement in a text
+ * Literal replacements are inserted as-is, regular expression replacements
+ * can refer to groups with $1, $<name>...
+ */
+function replaceText(
+  text: string,
+  replacement: Replacement,
+  to: string,
+): { text: string; count: number } {
+  if (replacement.regex === undefined) {
+    const parts = text.split(replacement.from!);
+    return { text: parts.join(to), count: parts.length - 1 };
+  }
+
+  const regex = new RegExp(replacement.regex, "gm");
+  return {
+    text: text.replace(regex, to),
+    count: [...text.matchAll(regex)].length,
+  };
+}
+
+/**
+ * Apply replacements to the content of the committed files in memory
+ * The blob SHA of the local file is kept, so that the local repository can
+ * still be compared with what was read
+ * Fails with EREPLACEMENT if a replacement does not match the expected number
+ * of times, or matches nothing unless it is not required
+ */
+export function applyReplacements(
+  blobs: FileBlob[],
+  replacements: Replacement[],
+  directory: string,
+  templateContext: Record<string, unknown>,
+): { blobs: FileBlob[]; results: ReplacementResult[] } {
+  const replaced = blobs.map((blob) => ({ ...blob }));
+  const results: ReplacementResult[] = [];
+
+  replacements.forEach((replacement, index) => {
+    const to = renderTemplate(
+      replacement.to,
+      templateContext,
+      `replacements[${index}].to`,
+    );
+    const patterns = replacement.files.map((pattern) =>
+      toRepositoryPattern(directory, pattern),
+    );
+    const result: ReplacementResult = { files: [], count: 0 };
+
+    for (const blob of replaced) {
+      if (!micromatch.isMatch(blob.path, patterns, { dot: true })) {
+        continue;
+      }
+      if (blob.encoding !== "utf-8" || blob.lfs || blob.mode === "120000") {
+        throw createError(
+          "EREPLACEMENT",
+          `Cannot replace ${formatReplacement(replacement)} in ${blob.path}, which is not committed as a text file`,
+        );
+      }
+
+      const { text, count } = replaceText(blob.content, replacement, to);
+      if (text !== blob.content) {
+        blob.localSha = blob.localSha ?? getBlobSha(blob);
+        blob.content = text;
+        result.files.push(blob.path);
+      }
+      result.count += count;
+    }
+
+    if (replacement.count !== undefined && result.count !== replacement.count) {
+      throw createError(
+        "EREPLACEMENT",
+        `Replacement of ${formatReplacement(replacement)} matched ${result.count} time(s) instead of ${replacement.count}`,
+        replacement.files.join(", "),
+      );
+    }
+    if (result.count === 0 && replacement.required !== false) {
+      throw createError(
+        "EREPLACEMENT",
+        `Replacement of ${formatReplacement(replacement)} matched nothing`,
+        replacement.files.join(", "),
+      );
+    }
+    results.push(result);
+  });
+
+  return { blobs: replaced, results };
+}
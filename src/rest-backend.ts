@@ -0,0 +1,206 @@
+import { GitHubClient } from "./github";
+import {
+  FileBlob,
+  GitHubCommit,
+  SemanticReleaseContext,
+  TreeEntry,
+} from "./types";
+import {
+  CommitBackend,
+  CommitChanges,
+  CommitRequest,
+  handleBranchMoved,
+  readMovedHead,
+} from "./backend";
+
+/**
+ * Tree of one of the commits of a request
+ */
+interface CommitTree {
+  commit: CommitChanges;
+  entries: TreeEntry[];
+  sha: string;
+}
+
+/**
+ * Create commits with the REST Git Data API: blobs, trees, commits, then ref update
+ */
+export class RestCommitBackend implements CommitBackend {
+  private github: GitHubClient;
+  private logger: SemanticReleaseContext["logger"];
+
+  constructor(github: GitHubClient, logger: SemanticReleaseContext["logger"]) {
+    this.github = github;
+    this.logger = logger;
+  }
+
+  /**
+   * Upload the changed files of all commits
+   * Returns the SHA of the uploaded blob for each local git blob SHA
+   */
+  private async uploadBlobs(
+    request: CommitRequest,
+  ): Promise<Map<string, string>> {
+    const { repo, baseTree, commits } = request;
+
+    // Upload each distinct content once, skipping content already in the repository
+    const remoteShas = new Set(
+      baseTree.tree
+        .filter((item) => item.type === "blob")
+        .map((item) => item.sha),
+    );
+    const pendingUploads = new Map<string, FileBlob>();
+    commits
+      .flatMap((commit) => commit.files)
+      .forEach((blob) => {
+        if (!remoteShas.has(blob.sha) && !pendingUploads.has(blob.sha)) {
+          pendingUploads.set(blob.sha, blob);
+        }
+      });
+
+    this.logger.log(`Creating ${pendingUploads.size} blob(s)...`);
+    const uploadedShas = new Map<string, string>();
+    await Promise.all(
+      [...pendingUploads.entries()].map(async ([sha, blob]) => {
+        const githubBlob = await this.github.createBlob(
+          repo,
+          blob.content,
+          blob.encoding,
+        );
+        uploadedShas.set(sha, githubBlob.sha);
+      }),
+    );
+
+    this.logger.log(`Created ${uploadedShas.size} blob(s)`);
+
+    return uploadedShas;
+  }
+
+  /**
+   * Upload the changed files and create the tree of each commit on top of the
+   * tree of the previous one
+   * Commits leaving the previous tree unchanged are skipped
+   */
+  private async buildTrees(request: CommitRequest): Promise<CommitTree[]> {
+    const uploadedShas = await this.uploadBlobs(request);
+    const trees: CommitTree[] = [];
+    let baseTreeSha = request.baseTree.sha;
+
+    for (const commit of request.commits) {
+      const entries: TreeEntry[] = [
+        ...commit.files.map((blob) => ({
+          path: blob.path,
+          sha: uploadedShas.get(blob.sha) ?? blob.sha,
+          mode: blob.mode,
+        })),
+        ...commit.deletions.map((deletion) => ({
+          path: deletion.path,
+          sha: null,
+        })),
+      ];
+
+      this.logger.log("Creating tree...");
+      const tree = await this.github.createTree(
+        request.repo,
+        baseTreeSha,
+        entries,
+      );
+      this.logger.log(`Created tree: ${tree.sha}`);
+
+      // Check if tree is different from base tree (idempotency)
+      if (tree.sha === baseTreeSha) {
+        continue;
+      }
+
+      trees.push({ commit, entries, sha: tree.sha });
+      baseTreeSha = tree.sha;
+    }
+
+    return trees;
+  }
+
+  /**
+   * Create a chain of commits of the trees, starting on the parent commit
+   * Returns the last commit
+   */
+  private async commitTrees(
+    request: CommitRequest,
+    trees: CommitTree[],
+    parentSha: string,
+  ): Promise<GitHubCommit> {
+    let commit: GitHubCommit | undefined;
+
+    for (const tree of trees) {
+      this.logger.log("Creating commit...");
+      commit = await this.github.createCommit(
+        request.repo,
+        tree.commit.message,
+        tree.sha,
+        [commit?.sha ?? parentSha],
+        tree.commit.author,
+        request.committer,
+      );
+      this.logger.log(`Created commit: ${commit.sha}`);
+    }
+
+    return commit!;
+  }
+
+  /**
+   * Create the commits on top of the parent commit, without moving the branch
+   * Returns the last commit, or undefined when the changes leave the base tree
+   * unchanged
+   */
+  async createCommit(
+    request: CommitRequest,
+  ): Promise<GitHubCommit | undefined> {
+    const trees = await this.buildTrees(request);
+    return trees.length > 0
+      ? this.commitTrees(request, trees, request.parentSha)
+      : undefined;
+  }
+
+  async commitOnBranch(
+    request: CommitRequest,
+  ): Promise<GitHubCommit | undefined> {
+    const { repo } = request;
+    let trees = await this.buildTrees(request);
+    if (trees.length === 0) {
+      return undefined;
+    }
+
+    let parentSha = request.parentSha;
+    let parentTree = request.baseTree;
+
+    for (let attempt = 0; ; attempt++) {
+      const commit = await this.commitTrees(request, trees, parentSha);
+
+      // Move the branch once to the last commit
+      this.logger.log(`Updating ref ${repo.branch} to ${commit.sha}...`);
+      try {
+        await this.github.updateRef(repo, commit.sha);
+        return commit;
+      } catch (error: any) {
+        handleBranchMoved(error, request, attempt, this.logger);
+      }
+
+      // Blobs are already uploaded, only the trees need to be rebuilt
+      const head = await readMovedHead(this.github, request, parentTree);
+      parentSha = head.sha;
+      parentTree = head.tree;
+      const rebasedTrees: CommitTree[] = [];
+      let baseTreeSha = head.tree.sha;
+      for (const tree of trees) {
+        const rebasedTree = await this.github.createTree(
+          repo,
+          baseTreeSha,
+          tree.entries,
+        );
+        rebasedTrees.push({ ...tree, sha: rebasedTree.sha });
+        baseTreeSha = rebasedTree.sha;
+      }
+      trees = rebasedTrees;
+      this.logger.log(`Rebased onto ${parentSha} with tree ${baseTreeSha}`);
+    }
+  }
+}
@@ -0,0 +1,367 @@
+import { PluginConfig, SemanticReleaseContext } from "./types";
+import { createError, SemanticReleaseError } from "./errors";
+import { validateFilePatterns } from "./files";
+import { validateReplacements } from "./replacements";
+import { validateTrailers } from "./message";
+import { checkKeys, getGitIdentity } from "./utils";
+
+/**
+ * Check of the value of an option, throwing a SemanticReleaseError if invalid
+ */
+type OptionCheck = (value: unknown, option: string) => void;
+
+function isString(): OptionCheck {
+  return (value, option) => {
+    if (typeof value !== "string") {
+      throw createError(
+        "EINVALIDCONFIG",
+        `Plugin option "${option}" must be a string`,
+      );
+    }
+  };
+}
+
+function isBoolean(): OptionCheck {
+  return (value, option) => {
+    if (typeof value !== "boolean") {
+      throw createError(
+        "EINVALIDCONFIG",
+        `Plugin option "${option}" must be a boolean`,
+      );
+    }
+  };
+}
+
+function isInteger(min: number): OptionCheck {
+  return (value, option) => {
+    if (!Number.isInteger(value) || (value as number) < min) {
+      throw createError(
+        "EINVALIDCONFIG",
+        `Plugin option "${option}" must be a ${min > 0 ? "positive" : "non-negative"} integer`,
+      );
+    }
+  };
+}
+
+function isId(): OptionCheck {
+  return (value, option) => {
+    if (typeof value !== "string" && !Number.isInteger(value)) {
+      throw createError(
+        "EINVALIDCONFIG",
+        `Plugin option "${option}" must be a string or an integer`,
+      );
+    }
+  };
+}
+
+function isOneOf(values: readonly string[]): OptionCheck {
+  return (value, option) => {
+    if (!values.includes(value as string)) {
+      throw createError(
+        "EINVALIDCONFIG",
+        `Plugin option "${option}" must be one of: ${values.join(", ")}`,
+      );
+    }
+  };
+}
+
+function isPatternList(): OptionCheck {
+  return (value, option) => {
+    if (
+      !Array.isArray(value) ||
+      value.some((pattern) => typeof pattern !== "string")
+    ) {
+      throw createError(
+        "EINVALIDCONFIG",
+        `Plugin option "${option}" must be an array of glob patterns`,
+      );
+    }
+  };
+}
+
+const checkFiles: OptionCheck = (value, option) => {
+  if (!Array.isArray(value)) {
+    throw createError(
+      "EINVALIDCONFIG",
+      `Plugin option "${option}" must be provided and must be an array`,
+    );
+  }
+  if (value.length === 0) {
+    throw createError(
+      "ENOFILES",
+      `Plugin option "${option}" must contain at least one file pattern`,
+    );
+  }
+  validateFilePatterns(value);
+};
+
+const checkCommits: OptionCheck = (value, option) => {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw createError(
+      "EINVALIDCONFIG",
+      `Plugin option "${option}" must be a non-empty array`,
+    );
+  }
+
+  value.forEach((commit, index) => {
+    const commitOption = `${option}[${index}]`;
+    if (typeof commit !== "object" || commit === null) {
+      throw createError(
+        "EINVALIDCONFIG",
+        `Plugin option "${commitOption}" must be an object`,
+      );
+    }
+    checkKeys(commit, ["files", "message", "author"], commitOption);
+    if (!Array.isArray(commit.files) || commit.files.length === 0) {
+      throw createError(
+        "ENOFILES",
+        `Plugin option "${commitOption}.files" must contain at least one file pattern`,
+      );
+    }
+    if (typeof commit.message !== "string" || !commit.message) {
+      throw createError(
+        "EINVALIDCONFIG",
+        `Plugin option "${commitOption}.message" must be a non-empty string`,
+      );
+    }
+    if (
+      commit.author !== undefined &&
+      (typeof commit.author?.name !== "string" ||
+        typeof commit.author?.email !== "string")
+    ) {
+      throw createError(
+        "EINVALIDCONFIG",
+        `Plugin option "${commitOption}.author" must have a name and an email`,
+      );
+    }
+    if (commit.author !== undefined) {
+      checkKeys(commit.author, ["name", "email"], `${commitOption}.author`);
+    }
+  });
+
+  validateFilePatterns(value.flatMap((commit) => commit.files));
+};
+
+/**
+ * Checks of every plugin option, typed so that new options cannot be missed
+ */
+const PLUGIN_OPTIONS: Record<keyof PluginConfig, OptionCheck> = {
+  files: checkFiles,
+  commits: checkCommits,
+  remove: isPatternList(),
+  ignore: isPatternList(),
+  ignoreFile: isString(),
+  respectGitignore: isBoolean(),
+  deleteMissing: isBoolean(),
+  githubToken: isString(),
+  githubAppId: isId(),
+  githubAppPrivateKey: isString(),
+  githubAppInstallationId: isId(),
+  commitMessage: isString(),
+  trailers: (value) => validateTrailers(value),
+  signOff: isBoolean(),
+  commitFileList: isBoolean(),
+  maxMessageLength: isInteger(1),
+  replacements: (value) => validateReplacements(value),
+  inheritMode: isBoolean(),
+  forceBinary: isPatternList(),
+  forceText: isPatternList(),
+  maxFileSize: isInteger(1),
+  maxTotalSize: isInteger(1),
+  authorName: isString(),
+  authorEmail: isString(),
+  committerName: isString(),
+  committerEmail: isString(),
+  maxConcurrency: isInteger(1),
+  maxRetries: isInteger(0),
+  maxRebaseRetries: isInteger(0),
+  mode: isOneOf(["push", "pull-request"]),
+  pullRequestBranch: isString(),
+  pullRequestTitle: isString(),
+  pullRequestBody: isString(),
+  pullRequestMerge: isOneOf(["direct", "auto", "none"]),
+  pullRequestMergeMethod: isOneOf(["merge", "squash", "rebase"]),
+  pullRequestTimeout: isInteger(0),
+  api: isOneOf(["rest", "graphql"]),
+  localSync: isOneOf(["reset", "merge"]),
+  createTag: isBoolean(),
+  tagMessage: isString(),
+  manifest: isString(),
+  dryRun: isBoolean(),
+  dryRunDiff: isBoolean(),
+};
+
+/**
+ * Number of single-character edits between two strings
+ */
+function getEditDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Suggest the plugin option closest to a misspelled key
+ */
+function suggestOption(key: string): string | undefined {
+  const [closest] = Object.keys(PLUGIN_OPTIONS)
+    .map((option) => ({
+      option,
+      distance: getEditDistance(key.toLowerCase(), option.toLowerCase()),
+    }))
+    .sort((a, b) => a.distance - b.distance);
+  return closest.distance <= 2
+    ? `Did you mean "${closest.option}"?`
+    : undefined;
+}
+
+/**
+ * Check the options that depend on each other
+ */
+function checkRelatedOptions(
+  pluginConfig: PluginConfig,
+  env: SemanticReleaseContext["env"],
+): SemanticReleaseError[] {
+  const errors: SemanticReleaseError[] = [];
+
+  if (pluginConfig.files !== undefined && pluginConfig.commits !== undefined) {
+    errors.push(
+      createError(
+        "EINVALIDCONFIG",
+        'Plugin options "files" and "commits" cannot be used together',
+      ),
+    );
+  } else if (
+    pluginConfig.files === undefined &&
+    pluginConfig.commits === undefined
+  ) {
+    errors.push(
+      createError(
+        "EINVALIDCONFIG",
+        'Plugin option "files" must be provided and must be an array',
+      ),
+    );
+  }
+
+  // A name or an email alone is ignored, unless the environment completes it
+  // Options of the wrong type are already reported
+  for (const type of ["author", "committer"] as const) {
+    const variable = `GIT_${type.toUpperCase()}`;
+    for (const [option, other, suffix] of [
+      [`${type}Name`, `${type}Email`, "EMAIL"],
+      [`${type}Email`, `${type}Name`, "NAME"],
+    ] as const) {
+      if (
+        typeof pluginConfig[option] === "string" &&
+        pluginConfig[option] &&
+        !pluginConfig[other] &&
+        !env[`${variable}_${suffix}`]
+      ) {
+        errors.push(
+          createError(
+            "EINVALIDCONFIG",
+            `Plugin option "${option}" requires "${other}"`,
+            `Set ${other} or the ${variable}_${suffix} environment variable`,
+          ),
+        );
+      }
+    }
+  }
+
+  // The sign-off needs an identity, GitHub only sets the bot identity on commit
+  if (
+    pluginConfig.signOff &&
+    !getGitIdentity(
+      env,
+      "committer",
+      pluginConfig.committerName,
+      pluginConfig.committerEmail,
+    ) &&
+    !getGitIdentity(
+      env,
+      "author",
+      pluginConfig.authorName,
+      pluginConfig.authorEmail,
+    ) &&
+    !(
+      Array.isArray(pluginConfig.commits) &&
+      pluginConfig.commits.every((commit) => commit?.author)
+    )
+  ) {
+    errors.push(
+      createError(
+        "EINVALIDCONFIG",
+        'Plugin option "signOff" requires a committer or author identity',
+        "Set committerName and committerEmail, or the GIT_COMMITTER_NAME and GIT_COMMITTER_EMAIL environment variables",
+      ),
+    );
+  }
+
+  return errors;
+}
+
+/**
+ * Validate the plugin configuration against the schema of its options
+ * Every problem is reported at once, as an AggregateError of
+ * SemanticReleaseErrors, both flagged with semanticRelease so that
+ * semantic-release reports them as expected errors
+ * The semantic-release options are merged into the plugin configuration, so
+ * their keys are not reported as unknown options
+ */
+export function validatePluginConfig(
+  pluginConfig: PluginConfig,
+  context: Pick<SemanticReleaseContext, "env" | "options">,
+): void {
+  const errors: SemanticReleaseError[] = [];
+  const globalOptions = Object.keys(context.options ?? {});
+
+  for (const [key, value] of Object.entries(pluginConfig)) {
+    const check = PLUGIN_OPTIONS[key as keyof PluginConfig];
+    if (!check) {
+      if (!globalOptions.includes(key)) {
+        errors.push(
+          createError(
+            "EINVALIDCONFIG",
+            `Unknown plugin option "${key}"`,
+            suggestOption(key),
+          ),
+        );
+      }
+      continue;
+    }
+    if (value === undefined) {
+      continue;
+    }
+
+    try {
+      check(value, key);
+    } catch (error) {
+      if (!(error instanceof SemanticReleaseError)) {
+        throw error;
+      }
+      errors.push(error);
+    }
+  }
+
+  errors.push(...checkRelatedOptions(pluginConfig, context.env));
+
+  if (errors.length > 0) {
+    throw Object.assign(
+      new AggregateError(
+        errors,
+        errors.map((error) => error.message).join("\n"),
+      ),
+      { semanticRelease: true },
+    );
+  }
+}
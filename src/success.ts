@@ -0,0 +1,56 @@
+import { PluginConfig, SemanticReleaseContext } from "./types";
+import { GitHubClient } from "./github";
+import { getApiUrl, getGitIdentity, getRepoInfo } from "./utils";
+import { getTemplateContext, renderTemplate } from "./template";
+import { resolveAuthToken } from "./auth";
+
+/**
+ * Replace the release tag pushed by semantic-release with an annotated tag
+ * created through the API
+ * semantic-release tags the local HEAD after the prepare step and pushes a
+ * lightweight tag, so the tag object can only be created afterwards, on the
+ * commit that was tagged
+ */
+export async function success(
+  pluginConfig: PluginConfig,
+  context: SemanticReleaseContext,
+): Promise<void> {
+  const { logger, env, nextRelease } = context;
+  if (!pluginConfig.createTag || !nextRelease) {
+    return;
+  }
+
+  if (pluginConfig.dryRun) {
+    logger.log(`[DRY RUN] Would create annotated tag ${nextRelease.gitTag}`);
+    return;
+  }
+
+  const repoInfo = getRepoInfo(context);
+  const apiUrl = getApiUrl(repoInfo.host);
+  const token = await resolveAuthToken(pluginConfig, context, repoInfo, apiUrl);
+  const github = new GitHubClient(token, apiUrl, {
+    maxConcurrency: pluginConfig.maxConcurrency,
+    maxRetries: pluginConfig.maxRetries,
+    logger,
+  });
+
+  const tagSha = await github.createTag(
+    repoInfo,
+    nextRelease.gitTag,
+    renderTemplate(
+      pluginConfig.tagMessage ?? "${nextRelease.gitTag}",
+      getTemplateContext(context, repoInfo),
+      "tagMessage",
+    ),
+    nextRelease.gitHead,
+    getGitIdentity(
+      env,
+      "committer",
+      pluginConfig.committerName,
+      pluginConfig.committerEmail,
+    ),
+  );
+  logger.log(
+    `Replaced tag ${nextRelease.gitTag} with annotated tag ${tagSha} of ${nextRelease.gitHead}`,
+  );
+}
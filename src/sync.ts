@@ -0,0 +1,261 @@
+import { realpath } from "fs/promises";
+import { relative, sep } from "path";
+import { execa } from "execa";
+import { FileBlob, RepoInfo, SemanticReleaseContext } from "./types";
+import { readFileAsBlob } from "./files";
+import { getBlobSha } from "./utils";
+import { createError } from "./errors";
+
+export interface LocalSyncOptions {
+  mode: "reset" | "merge";
+  repo: RepoInfo;
+  token: string;
+  /**
+   * SHA of the release commit
+   */
+  sha: string;
+  /**
+   * Files committed by the release, as read from the working tree
+   * Mapped files are read from their source and committed to their path,
+   * inline files are not read from the working tree
+   */
+  files: FileBlob[];
+  /**
+   * Paths deleted by the release
+   */
+  deletions: string[];
+  cwd: string;
+  env: Record<string, string | undefined>;
+  logger: SemanticReleaseContext["logger"];
+}
+
+/**
+ * Build the environment passing the token to git as an HTTP header
+ * Unlike a token in the remote URL, the header does not show up in process
+ * listings or error messages
+ */
+export function getGitAuthEnv(
+  repo: RepoInfo,
+  token: string,
+  env: Record<string, string | undefined>,
+): Record<string, string | undefined> {
+  const key = `http.https://${repo.host}/.extraheader`;
+  const credentials = Buffer.from(`x-access-token:${token}`).toString("base64");
+  const count = Number(env.GIT_CONFIG_COUNT) || 0;
+
+  // The empty value drops headers configured before, e.g. by actions/checkout
+  return {
+    ...env,
+    GIT_TERMINAL_PROMPT: "0",
+    GIT_CONFIG_COUNT: String(count + 2),
+    [`GIT_CONFIG_KEY_${count}`]: key,
+    [`GIT_CONFIG_VALUE_${count}`]: "",
+    [`GIT_CONFIG_KEY_${count + 1}`]: key,
+    [`GIT_CONFIG_VALUE_${count + 1}`]: `AUTHORIZATION: basic ${credentials}`,
+  };
+}
+
+/**
+ * Find the root of the local repository and the path of the working directory
+ * in it, e.g. "packages/foo" when releasing a package of a monorepo
+ * Outside of a git repository, the working directory is used as the root
+ */
+export async function locateRepository(
+  cwd: string,
+  env: Record<string, string | undefined>,
+): Promise<{ root: string; directory: string }> {
+  try {
+    const { stdout } = await execa("git", ["rev-parse", "--show-toplevel"], {
+      cwd,
+      env,
+    });
+    const root = stdout.trim();
+    // The root is resolved by git, symbolic links in cwd must be resolved too
+    const directory = relative(root, await realpath(cwd))
+      .split(sep)
+      .join("/");
+    return { root, directory };
+  } catch {
+    return { root: cwd, directory: "" };
+  }
+}
+
+/**
+ * Read the core.autocrlf setting of the local repository
+ * Returns undefined if it is not set or outside of a git repository
+ */
+export async function getAutoCrlf(
+  cwd: string,
+  env: Record<string, string | undefined>,
+): Promise<string | undefined> {
+  try {
+    const { stdout } = await execa(
+      "git",
+      ["config", "--type=bool-or-str", "--get", "core.autocrlf"],
+      { cwd, env },
+    );
+    return stdout.trim() || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Run a git command in the local repository, failing with ELOCALSYNC
+ */
+async function git(
+  args: string[],
+  options: Pick<LocalSyncOptions, "cwd" | "env">,
+  input?: string,
+): Promise<string> {
+  try {
+    const { stdout } = await execa("git", args, {
+      cwd: options.cwd,
+      env: options.env,
+      input,
+    });
+    return stdout;
+  } catch (error: any) {
+    throw createError(
+      "ELOCALSYNC",
+      `Failed to run git ${args[0]} in the local repository`,
+      error.stderr || error.message,
+    );
+  }
+}
+
+type LocalChangesOptions = Pick<
+  LocalSyncOptions,
+  "mode" | "files" | "deletions" | "cwd" | "env"
+>;
+
+/**
+ * Find the local changes that updating the working tree to the release commit
+ * would lose: committed files modified since they were read, tracked files
+ * modified locally at the paths mapped and inline files are committed to, and,
+ * for a reset, any other tracked file modified locally
+ */
+async function findLostChanges(
+  options: LocalChangesOptions,
+): Promise<string[]> {
+  const lost: string[] = [];
+
+  for (const file of options.files) {
+    // Inline files have no local file to compare with
+    if (file.inline) {
+      continue;
+    }
+    const current = await readFileAsBlob(
+      file.path,
+      options.cwd,
+      {
+        lfsPaths: file.lfs ? [file.path] : [],
+        textPaths: file.normalized ? [file.path] : [],
+      },
+      file.source,
+    ).catch(() => undefined);
+    if (
+      !current ||
+      getBlobSha(current) !== (file.localSha ?? getBlobSha(file))
+    ) {
+      lost.push(file.source ?? file.path);
+    }
+  }
+
+  const mapped = options.files.filter(
+    (file) => file.source !== undefined || file.inline,
+  );
+  if (options.mode === "reset" || mapped.length > 0) {
+    // Files read from their own path already have the released content
+    const committed = new Set([
+      ...options.files
+        .filter((file) => file.source === undefined && !file.inline)
+        .map((file) => file.path),
+      ...options.deletions,
+    ]);
+    const destinations = new Set(mapped.map((file) => file.path));
+    const localChanges = await git(
+      ["diff", "--no-renames", "--name-only", "HEAD"],
+      options,
+    );
+    lost.push(
+      ...localChanges
+        .split("\n")
+        .filter((path) =>
+          options.mode === "reset"
+            ? path && !committed.has(path)
+            : destinations.has(path),
+        ),
+    );
+  }
+
+  return lost;
+}
+
+/**
+ * Fail if updating the local repository to the release commit would lose local
+ * changes, before the commit is created so that a failed release leaves the
+ * remote branch untouched
+ */
+export async function checkLocalChanges(
+  options: LocalChangesOptions,
+): Promise<void> {
+  const lost = await findLostChanges(options);
+  if (lost.length > 0) {
+    throw createError(
+      "ELOCALSYNC",
+      `Updating the local repository to the release commit would lose local changes - commit or discard them before the release`,
+      lost.join(", "),
+    );
+  }
+}
+
+/**
+ * Bring the release commit into the local repository, whose local changes were
+ * checked with checkLocalChanges
+ * - "reset" moves the local branch and working tree to the commit
+ * - "merge" fast-forwards the local branch to the commit, keeping local changes
+ *   to other files
+ */
+export async function syncLocalRepository(
+  options: LocalSyncOptions,
+): Promise<void> {
+  const { mode, repo, sha, logger } = options;
+
+  logger.log("Fetching new commit into local repository...");
+  await git(
+    [
+      "fetch",
+      "--no-tags",
+      `https://${repo.host}/${repo.owner}/${repo.repo}.git`,
+      `refs/heads/${repo.branch}`,
+    ],
+    { ...options, env: getGitAuthEnv(repo, options.token, options.env) },
+  );
+  await git(["cat-file", "-e", `${sha}^{commit}`], options);
+
+  if (mode === "reset") {
+    await git(["reset", "--hard", sha], options);
+  } else {
+    // Committed files already have the released content, stage them as such
+    // so that git does not refuse to fast-forward over them
+    if (options.files.length > 0) {
+      await git(
+        ["checkout", sha, "--pathspec-from-file=-", "--pathspec-file-nul"],
+        { ...options, env: { ...options.env, GIT_LITERAL_PATHSPECS: "1" } },
+        options.files.map((file) => file.path).join("\0"),
+      );
+    }
+    await git(["merge", "--ff-only", sha], options);
+  }
+
+  const head = await git(["rev-parse", "HEAD"], options);
+  if (head.trim() !== sha) {
+    throw createError(
+      "ELOCALSYNC",
+      `Local HEAD is ${head.trim()} instead of the release commit ${sha}`,
+    );
+  }
+
+  logger.log(`Local repository updated to ${sha}`);
+}
@@ -0,0 +1,55 @@
+import template from "lodash/template";
+import { RepoInfo, SemanticReleaseContext } from "./types";
+import { createError } from "./errors";
+
+/**
+ * Variables provided by the plugin in addition to the semantic-release context
+ */
+export interface TemplateVariables {
+  files?: string[];
+  deletedFiles?: string[];
+}
+
+/**
+ * Build the data available to templates, like semantic-release does for its own plugins
+ */
+export function getTemplateContext(
+  context: SemanticReleaseContext,
+  repoInfo: RepoInfo,
+  variables: TemplateVariables = {},
+): Record<string, unknown> {
+  const { branch, lastRelease, nextRelease, commits, options, env } = context;
+
+  return {
+    branch,
+    lastRelease,
+    nextRelease,
+    commits,
+    options,
+    env,
+    owner: repoInfo.owner,
+    repo: repoInfo.repo,
+    host: repoInfo.host,
+    files: variables.files ?? [],
+    deletedFiles: variables.deletedFiles ?? [],
+  };
+}
+
+/**
+ * Render a Lodash template, reporting syntax and reference errors as invalid configuration
+ */
+export function renderTemplate(
+  source: string,
+  data: Record<string, unknown>,
+  option: string = "commitMessage",
+): string {
+  try {
+    return template(source)(data);
+  } catch (error: any) {
+    throw createError(
+      "EINVALIDCONFIG",
+      `Plugin option "${option}" is not a valid template`,
+      error.message,
+    );
+  }
+}
@@ -1,14 +1,70 @@
 export interface PluginConfig {
   /**
-   * List of file paths/globs relative to repo root
+   * List of file paths/globs relative to the working directory, mappings of local files
+   * to other paths in the repository, or files generated from their content
+   * Required unless `commits` is set
    */
-  files: string[];
+  files?: FilePattern[];
+
+  /**
+   * Commits created in order, each with its own files and message, instead of
+   * a single commit of `files`
+   */
+  commits?: CommitGroup[];
+
+  /**
+   * List of file paths/globs to delete from the branch
+   * Matched against the files present in the remote branch
+   */
+  remove?: string[];
+
+  /**
+   * List of file globs to exclude from the committed files, relative to the
+   * working directory
+   */
+  ignore?: string[];
+
+  /**
+   * Ignore file in gitignore syntax excluding files from the committed files,
+   * relative to the working directory
+   */
+  ignoreFile?: string;
+
+  /**
+   * Exclude files ignored by git through .gitignore files
+   * @default false
+   */
+  respectGitignore?: boolean;
+
+  /**
+   * Delete files matching `files` that exist in the remote branch but no longer exist locally
+   * @default false
+   */
+  deleteMissing?: boolean;
 
   /**
    * GitHub authentication token (fallback if env vars not set)
    */
   githubToken?: string;
 
+  /**
+   * GitHub App ID, used with githubAppPrivateKey to create an installation token
+   * (fallback if GITHUB_APP_ID is not set)
+   */
+  githubAppId?: string | number;
+
+  /**
+   * GitHub App private key in PEM format
+   * (fallback if GITHUB_APP_PRIVATE_KEY is not set)
+   */
+  githubAppPrivateKey?: string;
+
+  /**
+   * GitHub App installation ID, discovered from the repository if not set
+   * (fallback if GITHUB_APP_INSTALLATION_ID is not set)
+   */
+  githubAppInstallationId?: string | number;
+
   /**
    * Commit message template
    * Can use template variables like ${nextRelease.version}
@@ -16,6 +72,63 @@ export interface PluginConfig {
    */
   commitMessage?: string;
 
+  /**
+   * Trailers appended to commit messages, e.g. { "Release-Version": "${nextRelease.version}" }
+   * Values are templates, several values of a key are added as separate lines
+   */
+  trailers?: Record<string, string | string[]>;
+
+  /**
+   * Append a Signed-off-by trailer with the committer, or author, identity
+   * @default false
+   */
+  signOff?: boolean;
+
+  /**
+   * Append the list of changed files, with their size difference, to commit messages
+   * @default false
+   */
+  commitFileList?: boolean;
+
+  /**
+   * Maximum length of commit messages in bytes, release notes are truncated to fit
+   * @default 65536
+   */
+  maxMessageLength?: number;
+
+  /**
+   * Text replaced in the content of committed files, e.g. version strings
+   */
+  replacements?: Replacement[];
+
+  /**
+   * Use the file mode already recorded in the remote branch for existing files
+   * instead of the local file permissions (e.g. on Windows runners)
+   * @default false
+   */
+  inheritMode?: boolean;
+
+  /**
+   * List of file globs to always commit as binary (base64)
+   */
+  forceBinary?: string[];
+
+  /**
+   * List of file globs to always commit as utf-8 text
+   */
+  forceText?: string[];
+
+  /**
+   * Maximum size of a single file in bytes, files tracked by Git LFS excluded
+   * @default 104857600 (100 MiB, the largest file GitHub accepts)
+   */
+  maxFileSize?: number;
+
+  /**
+   * Maximum total size of the files in bytes, files tracked by Git LFS excluded
+   */
+  maxTotalSize?: number;
+
   /**
    * Git author name (optional override)
    */
@@ -36,11 +149,153 @@ export interface PluginConfig {
    */
   committerEmail?: string;
 
+  /**
+   * Maximum number of concurrent GitHub API requests
+   * @default 10
+   */
+  maxConcurrency?: number;
+
+  /**
+   * Maximum number of retries of a GitHub API request failing with a transient error
+   * (5xx, 429 or rate limit)
+   * @default 3
+   */
+  maxRetries?: number;
+
+  /**
+   * Maximum number of times the commit is rebased onto the new branch head
+   * when the branch moved during the release
+   * @default 3
+   */
+  maxRebaseRetries?: number;
+
+  /**
+   * How the commit is added to the release branch:
+   * pushed directly, or through a pull request from a temporary branch
+   * @default "push"
+   */
+  mode?: "push" | "pull-request";
+
+  /**
+   * Name of the temporary branch in pull-request mode (template)
+   * @default "semantic-release/release-${nextRelease.version}"
+   */
+  pullRequestBranch?: string;
+
+  /**
+   * Pull request title (template)
+   * @default "chore(release): ${nextRelease.version}"
+   */
+  pullRequestTitle?: string;
+
+  /**
+   * Pull request body (template)
+   * @default "${nextRelease.notes}"
+   */
+  pullRequestBody?: string;
+
+  /**
+   * How the pull request gets merged: by the plugin ("direct"),
+   * by GitHub auto-merge ("auto") or by someone else ("none")
+   * @default "direct"
+   */
+  pullRequestMerge?: "direct" | "auto" | "none";
+
+  /**
+   * Merge method used to merge the pull request
+   * @default "squash"
+   */
+  pullRequestMergeMethod?: "merge" | "squash" | "rebase";
+
+  /**
+   * Maximum time to wait for the pull request to be merged, in seconds
+   * @default 600
+   */
+  pullRequestTimeout?: number;
+
+  /**
+   * GitHub API used to create the commit: the REST Git Data API, or the GraphQL
+   * createCommitOnBranch mutation (single atomic request, falls back to REST when
+   * the changes cannot be expressed or are too large)
+   * @default "rest"
+   */
+  api?: "rest" | "graphql";
+
+  /**
+   * How the local repository is updated to the release commit, which
+   * semantic-release tags: resetting the branch and working tree to it
+   * ("reset") or fast-forwarding the branch to it while keeping unrelated local
+   * changes ("merge")
+   * @default "reset"
+   */
+  localSync?: "reset" | "merge";
+
+  /**
+   * Replace the lightweight release tag pushed by semantic-release with an
+   * annotated tag of the same commit, created through the API in the success step
+   * @default false
+   */
+  createTag?: boolean;
+
+  /**
+   * Message template of the tag created with createTag
+   * @default "${nextRelease.gitTag}"
+   */
+  tagMessage?: string;
+
+  /**
+   * Path of a JSON manifest file describing the release commit, relative to the
+   * working directory
+   */
+  manifest?: string;
+
   /**
    * Dry run mode - log operations without executing them
+   * semantic-release's dryRun option shows the same in the verifyRelease step
    * @default false
    */
   dryRun?: boolean;
+
+  /**
+   * Show a unified diff of text files against the remote branch in dry run mode
+   * @default false
+   */
+  dryRunDiff?: boolean;
+}
+
+export interface ReleaseBranch {
+  name: string;
+  channel?: string | false;
+  prerelease?: boolean | string;
+  range?: string;
+  [key: string]: any;
+}
+
+export interface Release {
+  version: string;
+  gitTag: string;
+  gitHead: string;
+  channels?: Array<string | null>;
+  name?: string;
+}
+
+export interface NextRelease extends Release {
+  type?: "major" | "minor" | "patch" | "prerelease";
+  channel?: string | null;
+  notes: string;
+}
+
+export interface ReleaseCommit {
+  commit: { long: string; short: string };
+  tree: { long: string; short: string };
+  author: { name: string; email: string; date?: string };
+  committer: { name: string; email: string; date?: string };
+  subject: string;
+  body: string;
+  message: string;
+  hash: string;
+  committerDate?: string;
+  [key: string]: any;
 }
 
 export interface SemanticReleaseContext {
@@ -57,12 +312,55 @@ export interface SemanticReleaseContext {
     branches?: Array<string | { name: string }>;
     [key: string]: any;
   };
-  nextRelease?: {
-    version: string;
-    gitTag: string;
-    gitHead: string;
-    notes: string;
-  };
+  branch?: ReleaseBranch;
+  lastRelease?: Partial<Release>;
+  commits?: ReleaseCommit[];
+  nextRelease?: NextRelease;
+}
+
+/**
+ * Commit created by the plugin, returned by the prepare step
+ */
+export interface CommitResult {
+  sha: string;
+  /**
+   * Web URL of the commit
+   */
+  url: string;
+  treeSha: string;
+  /**
+   * Repository as "owner/repo"
+   */
+  repository: string;
+  branch: string;
+  /**
+   * Paths added or modified by the commit
+   */
+  files: string[];
+  /**
+   * Paths deleted by the commit
+   */
+  deletedFiles: string[];
+}
+
+export interface GitIdentity {
+  name: string;
+  email: string;
+}
+
+/**
+ * Files committed together in one of several release commits
+ */
+export interface CommitGroup {
+  files: FilePattern[];
+  /**
+   * Commit message template
+   */
+  message: string;
+  /**
+   * Author of this commit, instead of the configured author
+   */
+  author?: GitIdentity;
 }
 
 export interface RepoInfo {
@@ -72,11 +370,171 @@ export interface RepoInfo {
   host: string;
 }
 
+/**
+ * Git file mode: regular file, executable file or symbolic link
+ */
+export type FileMode = "100644" | "100755" | "120000";
+
+/**
+ * Local files committed to another path in the repository
+ */
+export interface FileMapping {
+  /**
+   * Path or glob of the local files, relative to the working directory
+   */
+  from: string;
+  /**
+   * Path relative to the working directory, or a directory when ending with a slash
+   * Files matched by a glob keep their path relative to the static part of the glob
+   */
+  to: string;
+}
+
+/**
+ * File generated from the configuration instead of read from disk
+ */
+export interface InlineFile {
+  /**
+   * Path relative to the working directory
+   */
+  path: string;
+  /**
+   * Content of the file, rendered as a template like the commit message
+   */
+  content: string;
+}
+
+export type FilePattern = string | FileMapping | InlineFile;
+
+/**
+ * Text replaced in the content of committed files before they are committed
+ * Either from or regex must be set
+ */
+export interface Replacement {
+  /**
+   * Globs of the committed files to apply the replacement to, relative to the
+   * working directory
+   */
+  files: string[];
+  /**
+   * Literal text to replace
+   */
+  from?: string;
+  /**
+   * Regular expression matching the text to replace, applied to all
+   * occurrences with ^ and $ matching at line boundaries
+   */
+  regex?: string;
+  /**
+   * Replacement template, which can refer to regex groups with $1
+   */
+  to: string;
+  /**
+   * Exact number of occurrences expected in all files
+   */
+  count?: number;
+  /**
+   * Fail the release if the replacement matches nothing
+   * @default true
+   */
+  required?: boolean;
+}
+
+/**
+ * File matched by the files option
+ */
+export interface ResolvedFile {
+  /**
+   * Path in the repository
+   */
+  path: string;
+  /**
+   * Path of the local file in the repository
+   */
+  source: string;
+}
+
 export interface FileBlob {
   path: string;
+  /**
+   * Path of the local file when it is committed to another path
+   */
+  source?: string;
   content: string;
   encoding: "utf-8" | "base64";
+  /**
+   * @default "100644"
+   */
+  mode?: FileMode;
   sha?: string;
+  /**
+   * Git LFS object of the file, the content is then the LFS pointer
+   */
+  lfs?: LfsObject;
+  /**
+   * CRLF line endings of the file were converted to LF
+   */
+  normalized?: boolean;
+  /**
+   * Content generated from the configuration instead of read from disk
+   */
+  inline?: boolean;
+  /**
+   * Blob SHA of the local file when the content was modified in memory
+   */
+  localSha?: string;
+}
+
+export interface LfsObject {
+  /**
+   * SHA-256 of the file content
+   */
+  oid: string;
+  size: number;
+}
+
+export interface ReadFileOptions {
+  forceBinary?: string[];
+  forceText?: string[];
+  /**
+   * Paths of the files tracked by Git LFS
+   */
+  lfsPaths?: string[];
+  /**
+   * Paths of the files whose line endings are always normalized to LF
+   */
+  textPaths?: string[];
+  /**
+   * Paths of the files whose line endings are normalized to LF if the file is
+   * detected as text
+   */
+  autoTextPaths?: string[];
+}
+
+export interface FileSizeLimits {
+  maxFileSize?: number;
+  maxTotalSize?: number;
+  /**
+   * Paths of the files tracked by Git LFS, not subject to the limits
+   */
+  lfsPaths?: string[];
+}
+
+export interface FileDeletion {
+  path: string;
+  reason: "missing" | "removed";
+}
+
+export interface TreeEntry {
+  path: string;
+  /**
+   * Blob SHA, or null to delete the path from the base tree
+   */
+  sha: string | null;
+  /**
+   * @default "100644"
+   */
+  mode?: FileMode;
 }
 
 export interface GitHubRef {
@@ -92,15 +550,22 @@ export interface GitHubBlob {
   url: string;
 }
 
+export interface GitHubTreeItem {
+  path: string;
+  mode: string;
+  type: string;
+  sha: string;
+  /**
+   * Size of blobs in bytes
+   */
+  size?: number;
+}
+
 export interface GitHubTree {
   sha: string;
   url?: string;
-  tree: Array<{
-    path: string;
-    mode: string;
-    type: string;
-    sha: string;
-  }>;
+  tree: GitHubTreeItem[];
+  truncated?: boolean;
 }
 
 export interface GitHubCommit {
@@ -114,3 +579,35 @@ export interface GitHubCommit {
     sha: string;
   }>;
 }
+
+export interface GitHubRepository {
+  fullName: string;
+  archived: boolean;
+  /**
+   * Permissions of the authenticated user, not returned for app installation tokens
+   */
+  permissions?: {
+    admin: boolean;
+    push: boolean;
+  };
+}
+
+export interface GitHubBranch {
+  name: string;
+  sha: string;
+  protected: boolean;
+}
+
+export interface GitHubBranchRule {
+  type: string;
+  rulesetId?: number;
+}
+
+export interface GitHubPullRequest {
+  number: number;
+  nodeId: string;
+  url: string;
+  state: string;
+  merged: boolean;
+  mergeCommitSha: string | null;
+}
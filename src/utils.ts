@@ -1,4 +1,11 @@
-import { RepoInfo, SemanticReleaseContext } from "./types";
+import { createHash } from "crypto";
+import {
+  FileBlob,
+  GitIdentity,
+  PluginConfig,
+  RepoInfo,
+  SemanticReleaseContext,
+} from "./types";
 import { createError } from "./errors";
 
 /**
@@ -20,6 +27,13 @@ export function getAuthToken(
   return token;
 }
 
+/**
+ * Get the API URL for GitHub Enterprise hosts, undefined for github.com
+ */
+export function getApiUrl(host: string): string | undefined {
+  return host === "github.com" ? undefined : `https://${host}/api/v3`;
+}
+
 /**
  * Parse repository URL to extract owner and repo
  */
@@ -131,7 +145,7 @@ export function getGitIdentity(
   type: "author" | "committer",
   configName?: string,
   configEmail?: string,
-): { name: string; email: string } | undefined {
+): GitIdentity | undefined {
   const name = configName || env[`GIT_${type.toUpperCase()}_NAME`];
   const email = configEmail || env[`GIT_${type.toUpperCase()}_EMAIL`];
 
@@ -150,3 +164,62 @@ export function getGitIdentity(
 
   return undefined;
 }
+
+/**
+ * Reject the keys of an object that are not part of its options
+ */
+export function checkKeys(
+  value: object,
+  keys: readonly string[],
+  option: string,
+): void {
+  const unknown = Object.keys(value).filter((key) => !keys.includes(key));
+  if (unknown.length > 0) {
+    throw createError(
+      "EINVALIDCONFIG",
+      `Plugin option "${option}" has unknown keys: ${unknown.join(", ")}`,
+    );
+  }
+}
+
+/**
+ * Compute the git blob SHA of a file, as `git hash-object` would
+ */
+export function getBlobSha(blob: Pick<FileBlob, "content" | "encoding">): string {
+  const content = Buffer.from(blob.content, blob.encoding);
+  return createHash("sha1")
+    .update(`blob ${content.length}\0`)
+    .update(content)
+    .digest("hex");
+}
+
+/**
+ * Format a size difference in bytes with its sign
+ */
+export function formatDelta(delta: number): string {
+  return `${delta >= 0 ? "+" : "-"}${Math.abs(delta)} bytes`;
+}
+
+/**
+ * Wait for the given number of milliseconds
+ */
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Get the commit message template from config, falling back to the default
+ */
+export function getCommitMessageTemplate(
+  pluginConfig: PluginConfig,
+  context: Pick<SemanticReleaseContext, "nextRelease">,
+): string {
+  if (pluginConfig.commitMessage) {
+    return pluginConfig.commitMessage;
+  }
+
+  // Fallback if no nextRelease context
+  return context.nextRelease
+    ? "chore(release): ${nextRelease.version} [skip ci]"
+    : "chore(release): update [skip ci]";
+}
@@ -0,0 +1,19 @@
+import { PluginConfig, SemanticReleaseContext } from "./types";
+import { prepare } from "./prepare";
+
+/**
+ * Show the changes that would be committed when semantic-release runs with
+ * --dry-run, which skips the prepare step
+ * The release notes are generated after this step, so they are empty in the
+ * commit message shown
+ */
+export async function verifyRelease(
+  pluginConfig: PluginConfig,
+  context: SemanticReleaseContext,
+): Promise<void> {
+  if (!context.options?.dryRun) {
+    return;
+  }
+
+  await prepare({ ...pluginConfig, dryRun: true }, context);
+}
@@ -1,6 +1,113 @@
-import { PluginConfig, SemanticReleaseContext } from "./types";
+import {
+  NextRelease,
+  PluginConfig,
+  RepoInfo,
+  SemanticReleaseContext,
+} from "./types";
 import { createError } from "./errors";
-import { getAuthToken, getRepoInfo } from "./utils";
+import {
+  getApiUrl,
+  getAuthToken,
+  getRepoInfo,
+  getCommitMessageTemplate,
+} from "./utils";
+import { getTemplateContext, renderTemplate } from "./template";
+import { formatTrailers } from "./message";
+import { validatePluginConfig } from "./schema";
+import { getAppCredentials, parsePrivateKey, resolveAuthToken } from "./auth";
+import { GitHubClient } from "./github";
+import { formatFilePattern, isInlineFile } from "./files";
+
+/**
+ * Release used to render templates before the next release is known
+ */
+const SAMPLE_RELEASE: NextRelease = {
+  type: "patch",
+  version: "0.0.0",
+  gitTag: "v0.0.0",
+  gitHead: "0000000000000000000000000000000000000000",
+  channel: null,
+  notes: "",
+};
+
+/**
+ * Types of ruleset rules that reject a direct update of the branch
+ */
+const BLOCKING_RULES = [
+  "pull_request",
+  "required_status_checks",
+  "required_deployments",
+  "update",
+];
+
+/**
+ * Check that the repository and branch exist and the token can push to it
+ * Warns when branch protection or rulesets are likely to reject the push
+ */
+async function verifyRemote(
+  github: GitHubClient,
+  repoInfo: RepoInfo,
+  pluginConfig: PluginConfig,
+  logger: SemanticReleaseContext["logger"],
+): Promise<void> {
+  const repository = await github.getRepository(repoInfo);
+  if (repository.archived) {
+    throw createError(
+      "EGHNOPERMISSION",
+      `Repository ${repository.fullName} is archived and cannot be pushed to`,
+    );
+  }
+  // Installation tokens have no user permissions, their permissions are
+  // checked when the token is minted
+  if (repository.permissions && !repository.permissions.push) {
+    throw createError(
+      "EGHNOPERMISSION",
+      `The GitHub token does not have push permission on ${repository.fullName}`,
+    );
+  }
+
+  const branch = await github.getBranch(repoInfo);
+  logger.log(`Branch ${branch.name} found at ${branch.sha}`);
+
+  // Pull-request mode goes through the rules by design
+  if (pluginConfig.mode === "pull-request") {
+    return;
+  }
+
+  if (branch.protected && !repository.permissions?.admin) {
+    logger.warn(
+      `Branch ${branch.name} is protected - committing fails if the protection requires pull requests or status checks and the token cannot bypass it`,
+    );
+  }
+
+  try {
+    const rules = await github.getBranchRules(repoInfo);
+    const rulesetIds = new Set(
+      rules
+        .filter((rule) => BLOCKING_RULES.includes(rule.type))
+        .map((rule) => rule.rulesetId)
+        .filter((id): id is number => id !== undefined),
+    );
+    for (const rulesetId of rulesetIds) {
+      const bypass = await github.getRulesetBypass(repoInfo, rulesetId);
+      if (bypass !== "always") {
+        const types = rules
+          .filter(
+            (rule) =>
+              rule.rulesetId === rulesetId && BLOCKING_RULES.includes(rule.type),
+          )
+          .map((rule) => rule.type);
+        logger.warn(
+          `Ruleset ${rulesetId} blocks direct commits to ${branch.name} (${types.join(", ")}) and the token cannot bypass it - consider mode "pull-request" or a bypass for the token`,
+        );
+      }
+    }
+  } catch (error: any) {
+    logger.warn(
+      `Could not check the rulesets of branch ${branch.name}: ${error.message}`,
+    );
+  }
+}
 
 /**
  * Verify that all required conditions are met
@@ -11,36 +118,45 @@ export async function verifyConditions(
 ): Promise<void> {
   const { logger, env } = context;
 
-  // Validate GitHub auth token
-  try {
-    const token = getAuthToken(env, pluginConfig.githubToken);
-    logger.log(
-      `GitHub authentication token found (${token.substring(0, 4)}...)`,
-    );
-  } catch (error) {
-    throw error;
-  }
+  // Validate all options at once, before using any of them
+  validatePluginConfig(pluginConfig, context);
 
-  // Validate files option
-  if (!pluginConfig.files || !Array.isArray(pluginConfig.files)) {
-    throw createError(
-      "EINVALIDCONFIG",
-      'Plugin option "files" must be provided and must be an array',
-    );
+  // Validate GitHub App credentials, or GitHub auth token
+  const appCredentials = getAppCredentials(env, pluginConfig);
+  if (appCredentials) {
+    parsePrivateKey(appCredentials.privateKey);
+    logger.log(`GitHub App credentials found (app ${appCredentials.appId})`);
+  } else {
+    try {
+      const token = getAuthToken(env, pluginConfig.githubToken);
+      logger.log(
+        `GitHub authentication token found (${token.substring(0, 4)}...)`,
+      );
+    } catch (error) {
+      throw error;
+    }
   }
 
-  if (pluginConfig.files.length === 0) {
-    throw createError(
-      "ENOFILES",
-      'Plugin option "files" must contain at least one file pattern',
+  if (pluginConfig.commits !== undefined) {
+    pluginConfig.commits.forEach((commit, index) =>
+      logger.log(
+        `File patterns of commit ${index + 1}: ${commit.files.map(formatFilePattern).join(", ")}`,
+      ),
+    );
+  } else {
+    logger.log(
+      `File patterns to commit: ${pluginConfig.files!.map(formatFilePattern).join(", ")}`,
     );
   }
 
-  logger.log(`File patterns to commit: ${pluginConfig.files.join(", ")}`);
+  if (pluginConfig.remove) {
+    logger.log(`File patterns to delete: ${pluginConfig.remove.join(", ")}`);
+  }
 
   // Validate repository info
+  let repoInfo: RepoInfo;
   try {
-    const repoInfo = getRepoInfo(context);
+    repoInfo = getRepoInfo(context);
     logger.log(
       `Repository: ${repoInfo.owner}/${repoInfo.repo}, branch: ${repoInfo.branch}`,
     );
@@ -48,5 +164,91 @@ export async function verifyConditions(
     throw error;
   }
 
+  // Validate templates, with placeholders for the release not yet known
+  const templateContext = getTemplateContext(
+    {
+      ...context,
+      lastRelease: context.lastRelease ?? {},
+      commits: context.commits ?? [],
+      nextRelease: context.nextRelease ?? SAMPLE_RELEASE,
+    },
+    repoInfo,
+  );
+  renderTemplate(
+    getCommitMessageTemplate(pluginConfig, { nextRelease: SAMPLE_RELEASE }),
+    templateContext,
+  );
+  pluginConfig.commits?.forEach((commit, index) =>
+    renderTemplate(commit.message, templateContext, `commits[${index}].message`),
+  );
+  const fileOptions = pluginConfig.commits
+    ? pluginConfig.commits.map((commit, index) => ({
+        option: `commits[${index}].files`,
+        files: commit.files,
+      }))
+    : [{ option: "files", files: pluginConfig.files ?? [] }];
+  pluginConfig.replacements?.forEach((replacement, index) =>
+    renderTemplate(
+      replacement.to,
+      templateContext,
+      `replacements[${index}].to`,
+    ),
+  );
+  formatTrailers(pluginConfig.trailers, templateContext);
+  for (const { option, files } of fileOptions) {
+    files.forEach((file, index) => {
+      if (isInlineFile(file)) {
+        renderTemplate(
+          file.content,
+          templateContext,
+          `${option}[${index}].content`,
+        );
+      }
+    });
+  }
+  for (const option of [
+    "tagMessage",
+    "pullRequestBranch",
+    "pullRequestTitle",
+    "pullRequestBody",
+  ] as const) {
+    const source = pluginConfig[option];
+    if (source !== undefined) {
+      renderTemplate(source, templateContext, option);
+    }
+  }
+
+  if (pluginConfig.mode === "pull-request") {
+    logger.log(
+      `Pull-request mode: commits are merged into ${repoInfo.branch} through a pull request`,
+    );
+    if (
+      (pluginConfig.commits?.length ?? 0) > 1 &&
+      (pluginConfig.pullRequestMergeMethod ?? "squash") === "squash"
+    ) {
+      logger.warn(
+        'The commits are squashed into one when the pull request is merged - use pullRequestMergeMethod "merge" or "rebase" to keep them separate',
+      );
+    }
+  }
+
+  // Check the repository with the API, so that a token or branch problem fails
+  // the release before other plugins publish anything
+  // For GitHub Apps, minting the token validates the installation and its permissions
+  const apiUrl = getApiUrl(repoInfo.host);
+  const token = await resolveAuthToken(pluginConfig, context, repoInfo, apiUrl);
+  if (appCredentials) {
+    logger.log(
+      `GitHub App installation token created for ${repoInfo.owner}/${repoInfo.repo}`,
+    );
+  }
+
+  const github = new GitHubClient(token, apiUrl, {
+    maxConcurrency: pluginConfig.maxConcurrency,
+    maxRetries: pluginConfig.maxRetries,
+    logger,
+  });
+  await verifyRemote(github, repoInfo, pluginConfig, logger);
+
   logger.log("Verification successful - all required conditions met");
 }
@@ -5,14 +5,32 @@ module.exports = {
       git: {
         getRef: jest.fn(),
         getCommit: jest.fn(),
+        getTree: jest.fn(),
         createTree: jest.fn(),
         createCommit: jest.fn(),
         updateRef: jest.fn(),
         createBlob: jest.fn(),
+        getBlob: jest.fn(),
+        createRef: jest.fn(),
+        createTag: jest.fn(),
+        deleteRef: jest.fn(),
+      },
+      pulls: {
+        create: jest.fn(),
+        get: jest.fn(),
+        merge: jest.fn(),
       },
       repos: {
         get: jest.fn(),
+        getBranch: jest.fn(),
+        getBranchRules: jest.fn(),
+        getRepoRuleset: jest.fn(),
+      },
+      apps: {
+        getRepoInstallation: jest.fn(),
+        createInstallationAccessToken: jest.fn(),
       },
     },
+    graphql: jest.fn(),
   })),
 };
@@ -0,0 +1,84 @@
+import { execa } from "execa";
+import { getTextConversion, readPathAttributes } from "../src/attributes";
+
+const mockExeca = execa as unknown as jest.Mock;
+
+describe("readPathAttributes", () => {
+  beforeEach(() => {
+    mockExeca.mockReset();
+  });
+
+  it("should read the attributes of the paths with git check-attr", async () => {
+    mockExeca.mockResolvedValue({
+      stdout: [
+        "a.bin\0text\0unset\0a.bin\0eol\0unspecified\0a.bin\0filter\0lfs",
+        "docs/a.md\0text\0set\0docs/a.md\0eol\0crlf",
+        "docs/a.md\0filter\0unspecified\0",
+      ].join("\0"),
+      stderr: "",
+      exitCode: 0,
+    });
+
+    const attributes = await readPathAttributes(
+      ["a.bin", "docs/a.md", "b.js"],
+      "/repo",
+      {},
+    );
+
+    expect(mockExeca).toHaveBeenCalledWith(
+      "git",
+      ["check-attr", "-z", "--stdin", "text", "eol", "filter"],
+      expect.objectContaining({
+        cwd: "/repo",
+        input: "a.bin\0docs/a.md\0b.js",
+        reject: false,
+      }),
+    );
+    expect(attributes).toEqual(
+      new Map([
+        ["a.bin", { text: false, filter: "lfs" }],
+        ["docs/a.md", { text: true, eol: "crlf" }],
+        ["b.js", {}],
+      ]),
+    );
+  });
+
+  it("should not run git without paths", async () => {
+    expect(await readPathAttributes([], "/repo", {})).toEqual(new Map());
+    expect(mockExeca).not.toHaveBeenCalled();
+  });
+
+  it("should fail if git check-attr fails", async () => {
+    mockExeca.mockResolvedValue({
+      stdout: "",
+      stderr: "fatal: not a git repository",
+      exitCode: 128,
+    });
+
+    await expect(readPathAttributes(["a.bin"], "/repo", {})).rejects.toThrow(
+      expect.objectContaining({
+        code: "ENOFILES",
+        details: "fatal: not a git repository",
+      }),
+    );
+  });
+});
+
+describe("getTextConversion", () => {
+  it("should follow the text attribute", () => {
+    expect(getTextConversion({ text: true })).toBe("text");
+    expect(getTextConversion({ text: "auto" }, "false")).toBe("auto");
+    expect(getTextConversion({ text: false }, "true")).toBeUndefined();
+  });
+
+  it("should treat files with an eol attribute as text", () => {
+    expect(getTextConversion({ eol: "crlf" })).toBe("text");
+  });
+
+  it("should fall back to core.autocrlf without a text attribute", () => {
+    expect(getTextConversion({})).toBeUndefined();
+    expect(getTextConversion({}, "false")).toBeUndefined();
+    expect(getTextConversion({}, "true")).toBe("auto");
+    expect(getTextConversion({}, "input")).toBe("auto");
+  });
+});
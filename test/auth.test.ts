@@ -0,0 +1,206 @@
+import { createVerify, generateKeyPairSync } from "crypto";
+import { Octokit } from "@octokit/rest";
+import {
+  createAppJwt,
+  getAppCredentials,
+  parsePrivateKey,
+  resolveAuthToken,
+} from "../src/auth";
+import { RepoInfo } from "../src/types";
+
+const { privateKey, publicKey } = generateKeyPairSync("rsa", {
+  modulusLength: 2048,
+  privateKeyEncoding: { type: "pkcs1", format: "pem" },
+  publicKeyEncoding: { type: "spki", format: "pem" },
+});
+
+const repoInfo: RepoInfo = {
+  owner: "owner",
+  repo: "repo",
+  branch: "main",
+  host: "github.com",
+};
+
+const logger = {
+  log: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  success: jest.fn(),
+};
+
+describe("getAppCredentials", () => {
+  it("should return undefined when no app is configured", () => {
+    expect(getAppCredentials({}, {})).toBeUndefined();
+  });
+
+  it("should prefer env vars over config", () => {
+    const credentials = getAppCredentials(
+      {
+        GITHUB_APP_ID: "123",
+        GITHUB_APP_PRIVATE_KEY: privateKey,
+        GITHUB_APP_INSTALLATION_ID: "456",
+      },
+      { githubAppId: 999, githubAppPrivateKey: "other" },
+    );
+    expect(credentials).toEqual({
+      appId: "123",
+      privateKey,
+      installationId: 456,
+    });
+  });
+
+  it("should use config when env vars are not set", () => {
+    const credentials = getAppCredentials(
+      {},
+      { githubAppId: 123, githubAppPrivateKey: privateKey },
+    );
+    expect(credentials).toEqual({
+      appId: "123",
+      privateKey,
+      installationId: undefined,
+    });
+  });
+
+  it("should unescape newlines in the private key", () => {
+    const credentials = getAppCredentials(
+      {
+        GITHUB_APP_ID: "123",
+        GITHUB_APP_PRIVATE_KEY: privateKey.replace(/\n/g, "\\n"),
+      },
+      {},
+    );
+    expect(credentials?.privateKey).toBe(privateKey);
+  });
+
+  it("should throw EINVALIDCONFIG when the private key is missing", () => {
+    expect(() => getAppCredentials({ GITHUB_APP_ID: "123" }, {})).toThrow(
+      expect.objectContaining({ code: "EINVALIDCONFIG" }),
+    );
+  });
+
+  it("should throw EINVALIDCONFIG when the installation ID is not a number", () => {
+    expect(() =>
+      getAppCredentials(
+        {},
+        {
+          githubAppId: 123,
+          githubAppPrivateKey: privateKey,
+          githubAppInstallationId: "abc",
+        },
+      ),
+    ).toThrow("installation ID must be a number");
+  });
+});
+
+describe("createAppJwt", () => {
+  it("should create a signed RS256 JWT issued by the app", () => {
+    const now = Date.UTC(2025, 0, 1);
+    const jwt = createAppJwt({ appId: "123", privateKey }, now);
+    const [header, payload, signature] = jwt.split(".");
+
+    expect(JSON.parse(Buffer.from(header, "base64url").toString())).toEqual({
+      alg: "RS256",
+      typ: "JWT",
+    });
+    expect(JSON.parse(Buffer.from(payload, "base64url").toString())).toEqual({
+      iat: now / 1000 - 60,
+      exp: now / 1000 + 540,
+      iss: "123",
+    });
+    expect(
+      createVerify("RSA-SHA256")
+        .update(`${header}.${payload}`)
+        .verify(publicKey, Buffer.from(signature, "base64url")),
+    ).toBe(true);
+  });
+});
+
+describe("parsePrivateKey", () => {
+  it("should throw EGHNOAUTH for an invalid key", () => {
+    expect(() => parsePrivateKey("not a key")).toThrow(
+      expect.objectContaining({ code: "EGHNOAUTH" }),
+    );
+  });
+});
+
+describe("resolveAuthToken", () => {
+  const getOctokit = () =>
+    (Octokit as unknown as jest.Mock).mock.results.at(-1)!.value;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (Octokit as unknown as jest.Mock).mockImplementationOnce(() => ({
+      rest: {
+        apps: {
+          getRepoInstallation: jest.fn().mockResolvedValue({ data: { id: 7 } }),
+          createInstallationAccessToken: jest
+            .fn()
+            .mockResolvedValue({ data: { token: "ghs_installation" } }),
+        },
+      },
+    }));
+  });
+
+  it("should return the configured token without app credentials", async () => {
+    const token = await resolveAuthToken(
+      { files: [] },
+      { env: { GITHUB_TOKEN: "github-token" }, logger },
+      repoInfo,
+    );
+    expect(token).toBe("github-token");
+    expect(Octokit).not.toHaveBeenCalled();
+  });
+
+  it("should mint an installation token scoped to the repository", async () => {
+    const token = await resolveAuthToken(
+      { files: [] },
+      {
+        env: {
+          GITHUB_TOKEN: "github-token",
+          GITHUB_APP_ID: "123",
+          GITHUB_APP_PRIVATE_KEY: privateKey,
+        },
+        logger,
+      },
+      repoInfo,
+    );
+
+    const octokit = getOctokit();
+    expect(token).toBe("ghs_installation");
+    expect(octokit.rest.apps.getRepoInstallation).toHaveBeenCalledWith({
+      owner: "owner",
+      repo: "repo",
+    });
+    expect(octokit.rest.apps.createInstallationAccessToken).toHaveBeenCalledWith(
+      {
+        installation_id: 7,
+        repositories: ["repo"],
+        permissions: { contents: "write" },
+      },
+    );
+  });
+
+  it("should request pull request permissions in pull-request mode", async () => {
+    await resolveAuthToken(
+      {
+        files: [],
+        mode: "pull-request",
+        githubAppId: 123,
+        githubAppPrivateKey: privateKey,
+        githubAppInstallationId: 42,
+      },
+      { env: {}, logger },
+      repoInfo,
+    );
+
+    const octokit = getOctokit();
+    expect(octokit.rest.apps.getRepoInstallation).not.toHaveBeenCalled();
+    expect(octokit.rest.apps.createInstallationAccessToken).toHaveBeenCalledWith(
+      {
+        installation_id: 42,
+        repositories: ["repo"],
+        permissions: { contents: "write", pull_requests: "write" },
+      },
+    );
+  });
+});
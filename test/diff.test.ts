@@ -0,0 +1,96 @@
+import { createUnifiedDiff } from "../src/diff";
+
+describe("createUnifiedDiff", () => {
+  it("should return an empty diff for identical content", () => {
+    expect(createUnifiedDiff("a.txt", "a\nb\n", "a\nb\n")).toBe("");
+  });
+
+  it("should show changed lines with context", () => {
+    const oldText = "1\n2\n3\n4\n5\n6\n7\n8\n9\n10\n";
+    const newText = "1\n2\n3\n4\nfive\n6\n7\n8\n9\n10\n";
+
+    expect(createUnifiedDiff("a.txt", oldText, newText)).toBe(
+      [
+        "--- a/a.txt",
+        "+++ b/a.txt",
+        "@@ -2,7 +2,7 @@",
+        " 2",
+        " 3",
+        " 4",
+        "-5",
+        "+five",
+        " 6",
+        " 7",
+        " 8",
+      ].join("\n"),
+    );
+  });
+
+  it("should split distant changes into separate hunks", () => {
+    const lines = Array.from({ length: 20 }, (_, i) => `${i + 1}`);
+    const changed = [...lines];
+    changed[0] = "one";
+    changed[19] = "twenty";
+
+    const diff = createUnifiedDiff(
+      "a.txt",
+      lines.join("\n"),
+      changed.join("\n"),
+    );
+
+    expect(diff!.split("\n").filter((line) => line.startsWith("@@"))).toEqual([
+      "@@ -1,4 +1,4 @@",
+      "@@ -17,4 +17,4 @@",
+    ]);
+  });
+
+  it("should diff added files against empty content", () => {
+    expect(createUnifiedDiff("new.txt", "", "a\nb\n")).toBe(
+      ["--- a/new.txt", "+++ b/new.txt", "@@ -0,0 +1,2 @@", "+a", "+b"].join(
+        "\n",
+      ),
+    );
+  });
+
+  it("should handle insertions and deletions", () => {
+    expect(createUnifiedDiff("a.txt", "a\nb\nc\n", "a\nc\nd\n")).toBe(
+      [
+        "--- a/a.txt",
+        "+++ b/a.txt",
+        "@@ -1,3 +1,3 @@",
+        " a",
+        "-b",
+        " c",
+        "+d",
+      ].join("\n"),
+    );
+  });
+
+  it("should show a change of the final newline", () => {
+    expect(createUnifiedDiff("a.txt", "a\nb", "a\nb\n")).toBe(
+      [
+        "--- a/a.txt",
+        "+++ b/a.txt",
+        "@@ -1,2 +1,2 @@",
+        " a",
+        "-b",
+        "\\ No newline at end of file",
+        "+b",
+      ].join("\n"),
+    );
+  });
+
+  it("should mark unchanged last lines without a final newline", () => {
+    expect(createUnifiedDiff("a.txt", "a\nb", "c\nb")).toBe(
+      [
+        "--- a/a.txt",
+        "+++ b/a.txt",
+        "@@ -1,2 +1,2 @@",
+        "-a",
+        "+c",
+        " b",
+        "\\ No newline at end of file",
+      ].join("\n"),
+    );
+  });
+});
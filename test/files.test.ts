@@ -0,0 +1,539 @@
+import { chmod, mkdir, mkdtemp, rm, symlink, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { globby } from "globby";
+import fastGlob from "fast-glob";
+import {
+  checkFileSizes,
+  inheritModes,
+  isBinaryContent,
+  readFileAsBlob,
+  resolveDeletions,
+  resolveFiles,
+  validateFilePatterns,
+} from "../src/files";
+
+const mockGlobby = globby as jest.MockedFunction<typeof globby>;
+
+describe("isBinaryContent", () => {
+  it("should treat plain UTF-8 text as text", () => {
+    expect(isBinaryContent(Buffer.from("héllo wörld ✓\n", "utf-8"))).toBe(
+      false,
+    );
+  });
+
+  it("should treat empty content as text", () => {
+    expect(isBinaryContent(Buffer.alloc(0))).toBe(false);
+  });
+
+  it("should treat UTF-8 with byte order mark as text", () => {
+    const buffer = Buffer.concat([
+      Buffer.from([0xef, 0xbb, 0xbf]),
+      Buffer.from("text"),
+    ]);
+    expect(isBinaryContent(buffer)).toBe(false);
+  });
+
+  it("should treat content with null bytes as binary", () => {
+    expect(isBinaryContent(Buffer.from([0x00, 0x61, 0x73, 0x6d]))).toBe(true);
+  });
+
+  it("should treat invalid UTF-8 sequences as binary", () => {
+    // "café" encoded as latin-1
+    expect(isBinaryContent(Buffer.from([0x63, 0x61, 0x66, 0xe9]))).toBe(true);
+  });
+
+  it("should treat UTF-16 content as binary", () => {
+    expect(isBinaryContent(Buffer.from([0xff, 0xfe, 0x61, 0x62]))).toBe(true);
+  });
+});
+
+describe("readFileAsBlob", () => {
+  let cwd: string;
+
+  beforeEach(async () => {
+    cwd = await mkdtemp(join(tmpdir(), "github-commit-"));
+  });
+
+  afterEach(async () => {
+    await rm(cwd, { recursive: true, force: true });
+  });
+
+  it("should read regular files with mode 100644", async () => {
+    await writeFile(join(cwd, "README.md"), "# Readme");
+    await chmod(join(cwd, "README.md"), 0o644);
+
+    const blob = await readFileAsBlob("README.md", cwd);
+    expect(blob).toEqual({
+      path: "README.md",
+      content: "# Readme",
+      encoding: "utf-8",
+      mode: "100644",
+    });
+  });
+
+  it("should read executable files with mode 100755", async () => {
+    await writeFile(join(cwd, "cli.js"), "#!/usr/bin/env node");
+    await chmod(join(cwd, "cli.js"), 0o755);
+
+    const blob = await readFileAsBlob("cli.js", cwd);
+    expect(blob.mode).toBe("100755");
+  });
+
+  it("should read symbolic links as links with mode 120000", async () => {
+    await writeFile(join(cwd, "target.txt"), "target content");
+    await symlink("target.txt", join(cwd, "link.txt"));
+
+    const blob = await readFileAsBlob("link.txt", cwd);
+    expect(blob).toEqual({
+      path: "link.txt",
+      content: "target.txt",
+      encoding: "utf-8",
+      mode: "120000",
+    });
+  });
+
+  it("should read binary content as base64 regardless of extension", async () => {
+    const content = Buffer.from([0x00, 0x61, 0x73, 0x6d, 0x01, 0x00]);
+    await writeFile(join(cwd, "module.wasm"), content);
+
+    const blob = await readFileAsBlob("module.wasm", cwd);
+    expect(blob.encoding).toBe("base64");
+    expect(Buffer.from(blob.content, "base64").equals(content)).toBe(true);
+  });
+
+  it("should read text content as utf-8 regardless of extension", async () => {
+    await writeFile(join(cwd, "icon.svg"), "<svg></svg>");
+
+    const blob = await readFileAsBlob("icon.svg", cwd);
+    expect(blob.encoding).toBe("utf-8");
+    expect(blob.content).toBe("<svg></svg>");
+  });
+
+  it("should honor forced binary and text patterns", async () => {
+    await writeFile(join(cwd, "data.txt"), "plain text");
+    await writeFile(join(cwd, "legacy.txt"), Buffer.from([0x63, 0xe9]));
+
+    const binary = await readFileAsBlob("data.txt", cwd, {
+      forceBinary: ["*.txt"],
+    });
+    expect(binary.encoding).toBe("base64");
+
+    const text = await readFileAsBlob("legacy.txt", cwd, {
+      forceText: ["legacy.*"],
+    });
+    expect(text.encoding).toBe("utf-8");
+  });
+
+  it("should normalize CRLF line endings of text files", async () => {
+    await writeFile(join(cwd, "notes.txt"), "one\r\ntwo\r\n");
+    await writeFile(join(cwd, "plain.txt"), "one\r\ntwo\r\n");
+
+    const blob = await readFileAsBlob("notes.txt", cwd, {
+      textPaths: ["notes.txt"],
+    });
+    expect(blob).toMatchObject({ content: "one\ntwo\n", normalized: true });
+
+    const untouched = await readFileAsBlob("plain.txt", cwd);
+    expect(untouched.content).toBe("one\r\ntwo\r\n");
+    expect(untouched.normalized).toBeUndefined();
+  });
+
+  it("should only normalize files detected as text in auto mode", async () => {
+    await writeFile(join(cwd, "a.txt"), "one\r\ntwo\r\n");
+    await writeFile(join(cwd, "lone.txt"), "one\rtwo\r\n");
+    await writeFile(join(cwd, "data.bin"), Buffer.from([0, 13, 10]));
+    const options = { autoTextPaths: ["a.txt", "lone.txt", "data.bin"] };
+
+    expect(await readFileAsBlob("a.txt", cwd, options)).toMatchObject({
+      content: "one\ntwo\n",
+      normalized: true,
+    });
+    expect((await readFileAsBlob("lone.txt", cwd, options)).content).toBe(
+      "one\rtwo\r\n",
+    );
+    expect((await readFileAsBlob("data.bin", cwd, options)).content).toBe(
+      Buffer.from([0, 13, 10]).toString("base64"),
+    );
+  });
+
+  it("should read files tracked by Git LFS as pointers", async () => {
+    await writeFile(join(cwd, "model.bin"), "hello");
+
+    const blob = await readFileAsBlob("model.bin", cwd, {
+      lfsPaths: ["model.bin"],
+    });
+    expect(blob).toMatchObject({
+      content:
+        "version https://git-lfs.github.com/spec/v1\n" +
+        "oid sha256:2cf24dba5fb0a30e26e83b2ac5b9e29e1b161e5c1fa7425e73043362938b9824\n" +
+        "size 5\n",
+      encoding: "utf-8",
+      lfs: {
+        oid: "2cf24dba5fb0a30e26e83b2ac5b9e29e1b161e5c1fa7425e73043362938b9824",
+        size: 5,
+      },
+    });
+  });
+
+  it("should keep Git LFS pointers that are already checked out", async () => {
+    const pointer =
+      "version https://git-lfs.github.com/spec/v1\noid sha256:abc\nsize 5\n";
+    await writeFile(join(cwd, "model.bin"), pointer);
+
+    const blob = await readFileAsBlob("model.bin", cwd, {
+      lfsPaths: ["model.bin"],
+    });
+    expect(blob.content).toBe(pointer);
+    expect(blob.lfs).toBeUndefined();
+  });
+
+  it("should read mapped files from their source", async () => {
+    await writeFile(join(cwd, "out.js"), "built");
+
+    const blob = await readFileAsBlob("dist/index.js", cwd, {}, "out.js");
+    expect(blob).toMatchObject({
+      path: "dist/index.js",
+      source: "out.js",
+      content: "built",
+    });
+  });
+
+  it("should throw ENOFILES when the file does not exist", async () => {
+    await expect(readFileAsBlob("missing.txt", cwd)).rejects.toMatchObject({
+      code: "ENOFILES",
+    });
+  });
+});
+
+describe("checkFileSizes", () => {
+  const files = [
+    { path: "small.txt", source: "small.txt" },
+    { path: "large.bin", source: "large.bin" },
+  ];
+  let cwd: string;
+
+  beforeEach(async () => {
+    cwd = await mkdtemp(join(tmpdir(), "github-commit-"));
+    await writeFile(join(cwd, "small.txt"), "a".repeat(10));
+    await writeFile(join(cwd, "large.bin"), "a".repeat(100));
+  });
+
+  afterEach(async () => {
+    await rm(cwd, { recursive: true, force: true });
+  });
+
+  it("should accept files within the limits", async () => {
+    await expect(
+      checkFileSizes(files, cwd, {
+        maxFileSize: 100,
+        maxTotalSize: 110,
+      }),
+    ).resolves.toBeUndefined();
+  });
+
+  it("should list the files exceeding the maximum file size", async () => {
+    await expect(
+      checkFileSizes(files, cwd, { maxFileSize: 50 }),
+    ).rejects.toMatchObject({
+      code: "EFILETOOLARGE",
+      message: "1 file(s) exceed the maximum file size of 50 bytes",
+      details: "large.bin (100 bytes)",
+    });
+  });
+
+  it("should fail when the total size exceeds the limit", async () => {
+    await expect(
+      checkFileSizes(files, cwd, { maxTotalSize: 100 }),
+    ).rejects.toMatchObject({
+      code: "EFILETOOLARGE",
+      details: "large.bin (100 bytes), small.txt (10 bytes)",
+    });
+  });
+
+  it("should check mapped files at their source", async () => {
+    await expect(
+      checkFileSizes([{ path: "dist/large.bin", source: "large.bin" }], cwd, {
+        maxFileSize: 50,
+      }),
+    ).rejects.toMatchObject({ details: "dist/large.bin (100 bytes)" });
+  });
+
+  it("should not check files tracked by Git LFS", async () => {
+    await expect(
+      checkFileSizes(files, cwd, {
+        maxFileSize: 50,
+        lfsPaths: ["large.bin"],
+      }),
+    ).resolves.toBeUndefined();
+  });
+});
+
+describe("resolveFiles", () => {
+  beforeEach(() => {
+    mockGlobby.mockReset();
+  });
+
+  it("should commit files matched by plain patterns to their own path", async () => {
+    mockGlobby.mockResolvedValueOnce(["dist/index.js", "CHANGELOG.md"]);
+
+    await expect(
+      resolveFiles(["dist/**", "CHANGELOG.md"], "/repo"),
+    ).resolves.toEqual([
+      { path: "dist/index.js", source: "dist/index.js" },
+      { path: "CHANGELOG.md", source: "CHANGELOG.md" },
+    ]);
+    expect(mockGlobby).toHaveBeenCalledWith(
+      ["dist/**", "CHANGELOG.md"],
+      expect.objectContaining({ cwd: "/repo" }),
+    );
+  });
+
+  it("should not resolve inline files", async () => {
+    mockGlobby.mockResolvedValueOnce(["dist/index.js"]);
+
+    await expect(
+      resolveFiles(["dist/**", { path: "VERSION", content: "1.0.0" }], "/repo"),
+    ).resolves.toEqual([{ path: "dist/index.js", source: "dist/index.js" }]);
+    expect(mockGlobby).toHaveBeenCalledTimes(1);
+  });
+
+  it("should strip the static part of a glob mapped to a directory", async () => {
+    mockGlobby.mockResolvedValueOnce([
+      "build/out/index.js",
+      "build/out/lib/a.js",
+    ]);
+
+    await expect(
+      resolveFiles([{ from: "build/out/**/*.js", to: "dist/" }], "/repo"),
+    ).resolves.toEqual([
+      { path: "dist/index.js", source: "build/out/index.js" },
+      { path: "dist/lib/a.js", source: "build/out/lib/a.js" },
+    ]);
+  });
+
+  it("should map single files to a directory or a path", async () => {
+    mockGlobby
+      .mockResolvedValueOnce(["build/openapi.json"])
+      .mockResolvedValueOnce(["schema.json"]);
+
+    await expect(
+      resolveFiles(
+        [
+          { from: "build/openapi.json", to: "docs/api/" },
+          { from: "schema.json", to: "docs/schema/v1.json" },
+        ],
+        "/repo",
+      ),
+    ).resolves.toEqual([
+      { path: "docs/api/openapi.json", source: "build/openapi.json" },
+      { path: "docs/schema/v1.json", source: "schema.json" },
+    ]);
+  });
+
+  it("should prefix paths with the directory in the repository", async () => {
+    mockGlobby
+      .mockResolvedValueOnce(["CHANGELOG.md", "../../package-lock.json"])
+      .mockResolvedValueOnce(["build/index.js"]);
+
+    await expect(
+      resolveFiles(
+        [
+          "CHANGELOG.md",
+          "../../package-lock.json",
+          { from: "build/**", to: "dist/" },
+        ],
+        "/repo/packages/foo",
+        "packages/foo",
+      ),
+    ).resolves.toEqual([
+      {
+        path: "packages/foo/CHANGELOG.md",
+        source: "packages/foo/CHANGELOG.md",
+      },
+      { path: "package-lock.json", source: "package-lock.json" },
+      {
+        path: "packages/foo/dist/index.js",
+        source: "packages/foo/build/index.js",
+      },
+    ]);
+  });
+
+  it("should fail when files are outside of the repository", async () => {
+    mockGlobby.mockResolvedValueOnce(["../../../outside.txt"]);
+
+    await expect(
+      resolveFiles(
+        ["../../../outside.txt"],
+        "/repo/packages/foo",
+        "packages/foo",
+      ),
+    ).rejects.toMatchObject({
+      code: "EINVALIDCONFIG",
+      message: "Path ../../../outside.txt is outside of the repository",
+    });
+  });
+
+  it("should resolve symbolic links without following them", async () => {
+    const cwd = await mkdtemp(join(tmpdir(), "github-commit-"));
+    try {
+      await mkdir(join(cwd, "dist/v2"), { recursive: true });
+      await writeFile(join(cwd, "dist/v2/a.js"), "a");
+      await symlink("v2", join(cwd, "dist/latest"));
+      await symlink("missing.js", join(cwd, "dist/dangling.js"));
+      // globby is ESM, run the glob engine it wraps on the real directory
+      mockGlobby.mockImplementation((patterns, options) =>
+        fastGlob(patterns as string[], options as fastGlob.Options),
+      );
+
+      const files = await resolveFiles(["dist/**"], cwd);
+
+      expect(files.map((file) => file.path).sort()).toEqual([
+        "dist/dangling.js",
+        "dist/latest",
+        "dist/v2/a.js",
+      ]);
+    } finally {
+      await rm(cwd, { recursive: true, force: true });
+    }
+  });
+
+  it("should fail when several files are mapped to the same path", async () => {
+    mockGlobby
+      .mockResolvedValueOnce(["dist/index.js"])
+      .mockResolvedValueOnce(["build/index.js"]);
+
+    await expect(
+      resolveFiles(["dist/**", { from: "build/**", to: "dist/" }], "/repo"),
+    ).rejects.toMatchObject({
+      code: "EINVALIDCONFIG",
+      details: "dist/index.js (dist/index.js, build/index.js)",
+    });
+  });
+});
+
+describe("validateFilePatterns", () => {
+  it("should accept patterns and mappings", () => {
+    expect(() =>
+      validateFilePatterns([
+        "dist/**",
+        { from: "build/**", to: "lib/" },
+        { from: "build/openapi.json", to: "docs/openapi.json" },
+        { path: "src/version.ts", content: "export const VERSION = '1';" },
+      ]),
+    ).not.toThrow();
+  });
+
+  it.each([
+    [{ from: "build/**" }],
+    [{ from: "", to: "dist/" }],
+    [42],
+    [{ from: "!build/**", to: "dist/" }],
+    [{ from: "build/**", to: "/dist/" }],
+    [{ from: "build/**", to: "dist/index.js" }],
+    [{ path: "", content: "1.0.0" }],
+    [{ path: "VERSION", content: 1 }],
+    [{ path: "/VERSION", content: "1.0.0" }],
+    [{ path: "src/*.ts", content: "1.0.0" }],
+  ])("should reject the invalid entry %j", (file) => {
+    expect(() => validateFilePatterns([file])).toThrow(
+      expect.objectContaining({ code: "EINVALIDCONFIG" }),
+    );
+  });
+
+  it("should reject files mapped to the same path", () => {
+    expect(() =>
+      validateFilePatterns([
+        "docs/openapi.json",
+        { from: "build/openapi.json", to: "docs/" },
+        { from: "out/api.json", to: "docs/openapi.json" },
+      ]),
+    ).toThrow(
+      expect.objectContaining({
+        details:
+          "docs/openapi.json (docs/openapi.json, build/openapi.json, out/api.json)",
+      }),
+    );
+  });
+  it("should reject inline files committed to the path of other files", () => {
+    expect(() =>
+      validateFilePatterns([
+        "VERSION",
+        { path: "VERSION", content: "${nextRelease.version}" },
+      ]),
+    ).toThrow(expect.objectContaining({ details: "VERSION (VERSION, inline)" }));
+    expect(() =>
+      validateFilePatterns([
+        { path: "VERSION", content: "1" },
+        { path: "./VERSION", content: "2" },
+      ]),
+    ).toThrow("Inline file VERSION is declared several times");
+  });
+});
+
+describe("resolveDeletions", () => {
+  it("should match missing files at the destination of mappings", () => {
+    const remoteTree = ["dist/index.js", "dist/old.js", "build/old.js"].map(
+      (path) => ({ path, mode: "100644", type: "blob", sha: path }),
+    );
+
+    expect(
+      resolveDeletions(remoteTree, ["dist/index.js"], {
+        files: [{ from: "build/**", to: "dist/" }],
+        deleteMissing: true,
+      }),
+    ).toEqual([{ path: "dist/old.js", reason: "missing" }]);
+  });
+
+  it("should match patterns relative to the directory in the repository", () => {
+    const remoteTree = [
+      "packages/foo/dist/index.js",
+      "packages/foo/dist/old.js",
+      "packages/foo/legacy.js",
+      "dist/old.js",
+    ].map((path) => ({ path, mode: "100644", type: "blob", sha: path }));
+
+    expect(
+      resolveDeletions(remoteTree, ["packages/foo/dist/index.js"], {
+        files: ["dist/**"],
+        remove: ["legacy.js"],
+        deleteMissing: true,
+        directory: "packages/foo",
+      }),
+    ).toEqual([
+      { path: "packages/foo/legacy.js", reason: "removed" },
+      { path: "packages/foo/dist/old.js", reason: "missing" },
+    ]);
+  });
+});
+
+describe("inheritModes", () => {
+  const remoteTree = [
+    { path: "bin/cli.js", mode: "100755", type: "blob", sha: "a" },
+    { path: "dist/link", mode: "120000", type: "blob", sha: "b" },
+    { path: "dist/index.js", mode: "100644", type: "blob", sha: "c" },
+  ];
+
+  it("should only inherit the executable bit of regular files", () => {
+    const blobs = [
+      { path: "bin/cli.js", content: "", encoding: "utf-8" as const },
+      {
+        path: "dist/link",
+        content: "dist/index.js",
+        encoding: "utf-8" as const,
+      },
+      {
+        path: "dist/index.js",
+        content: "index.js",
+        encoding: "utf-8" as const,
+        mode: "120000" as const,
+      },
+    ];
+
+    expect(inheritModes(blobs, remoteTree)).toEqual([
+      { ...blobs[0], mode: "100755" },
+      blobs[1],
+      blobs[2],
+    ]);
+  });
+});
@@ -0,0 +1,353 @@
+import { Octokit } from "@octokit/rest";
+import { GitHubClient } from "../src/github";
+import { RepoInfo } from "../src/types";
+import { sleep } from "../src/utils";
+
+jest.mock("../src/utils", () => ({
+  ...jest.requireActual("../src/utils"),
+  sleep: jest.fn().mockResolvedValue(undefined),
+}));
+
+const mockSleep = sleep as jest.MockedFunction<typeof sleep>;
+
+const repo: RepoInfo = {
+  owner: "owner",
+  repo: "repo",
+  branch: "main",
+  host: "github.com",
+};
+
+const createRequestError = (
+  status: number,
+  message: string,
+  headers: Record<string, string> = {},
+) => Object.assign(new Error(message), { status, response: { headers } });
+
+describe("GitHubClient", () => {
+  let logger: { warn: jest.Mock };
+
+  const createClient = (options = {}) => {
+    const client = new GitHubClient("test-token", undefined, {
+      logger,
+      ...options,
+    });
+    const octokit = (Octokit as unknown as jest.Mock).mock.results.at(-1)!
+      .value;
+    return { client, octokit };
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    logger = { warn: jest.fn() };
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should retry server errors with exponential backoff", async () => {
+    const { client, octokit } = createClient();
+    octokit.rest.git.createBlob
+      .mockRejectedValueOnce(createRequestError(502, "Bad Gateway"))
+      .mockRejectedValueOnce(createRequestError(500, "Server Error"))
+      .mockResolvedValue({ data: { sha: "blob123", url: "url" } });
+
+    const blob = await client.createBlob(repo, "content", "utf-8");
+
+    expect(blob.sha).toBe("blob123");
+    expect(octokit.rest.git.createBlob).toHaveBeenCalledTimes(3);
+    expect(mockSleep).toHaveBeenNthCalledWith(1, 1000);
+    expect(mockSleep).toHaveBeenNthCalledWith(2, 2000);
+    expect(logger.warn).toHaveBeenCalledWith(
+      expect.stringContaining("retrying in 1s (retry 1/3)"),
+    );
+  });
+
+  it("should honor the retry-after header of secondary rate limits", async () => {
+    const { client, octokit } = createClient();
+    octokit.rest.git.createBlob
+      .mockRejectedValueOnce(
+        createRequestError(403, "You have exceeded a secondary rate limit", {
+          "retry-after": "30",
+        }),
+      )
+      .mockResolvedValue({ data: { sha: "blob123", url: "url" } });
+
+    await client.createBlob(repo, "content", "utf-8");
+
+    expect(mockSleep).toHaveBeenCalledWith(30000);
+    expect(logger.warn).toHaveBeenCalledWith(
+      expect.stringContaining("retrying in 30s"),
+    );
+  });
+
+  it("should wait for the rate limit reset when no requests remain", async () => {
+    const { client, octokit } = createClient();
+    const now = Date.now();
+    jest.spyOn(Date, "now").mockReturnValue(now);
+    octokit.rest.git.getCommit
+      .mockRejectedValueOnce(
+        createRequestError(429, "API rate limit exceeded", {
+          "x-ratelimit-remaining": "0",
+          "x-ratelimit-reset": String(Math.floor(now / 1000) + 60),
+        }),
+      )
+      .mockResolvedValue({
+        data: { sha: "abc123", message: "", tree: { sha: "t" }, parents: [] },
+      });
+
+    await client.getCommit(repo, "abc123");
+
+    const delay = mockSleep.mock.calls[0][0];
+    expect(delay).toBeGreaterThan(59000);
+    expect(delay).toBeLessThanOrEqual(60000);
+  });
+
+  it("should fail with EGHAPI once retries are exhausted", async () => {
+    const { client, octokit } = createClient({ maxRetries: 2 });
+    octokit.rest.git.createBlob.mockRejectedValue(
+      createRequestError(503, "Service Unavailable"),
+    );
+
+    await expect(
+      client.createBlob(repo, "content", "utf-8"),
+    ).rejects.toMatchObject({ code: "EGHAPI" });
+    expect(octokit.rest.git.createBlob).toHaveBeenCalledTimes(3);
+  });
+
+  it("should not retry mutations on server errors, which may have succeeded", async () => {
+    const { client, octokit } = createClient({ maxRetries: 2 });
+    octokit.graphql.mockRejectedValue(createRequestError(502, "Bad Gateway"));
+
+    await expect(
+      client.createCommitOnBranch(repo, "abc123", "message", [], []),
+    ).rejects.toMatchObject({ code: "EGHAPI" });
+    expect(octokit.graphql).toHaveBeenCalledTimes(1);
+    expect(mockSleep).not.toHaveBeenCalled();
+  });
+
+  it("should retry rate limited mutations", async () => {
+    const { client, octokit } = createClient({ maxRetries: 2 });
+    octokit.rest.pulls.merge
+      .mockRejectedValueOnce(createRequestError(429, "Too Many Requests"))
+      .mockResolvedValue({ data: {} });
+
+    await client.mergePullRequest(repo, 42, "squash");
+
+    expect(octokit.rest.pulls.merge).toHaveBeenCalledTimes(2);
+  });
+
+  it("should not retry client errors", async () => {
+    const { client, octokit } = createClient();
+    octokit.rest.git.getRef.mockRejectedValue(
+      createRequestError(404, "Not Found"),
+    );
+
+    await expect(client.getRef(repo)).rejects.toMatchObject({
+      code: "EGHAPI",
+    });
+    expect(octokit.rest.git.getRef).toHaveBeenCalledTimes(1);
+    expect(mockSleep).not.toHaveBeenCalled();
+  });
+
+  it("should report non fast-forward ref updates as EBRANCHMOVED", async () => {
+    const { client, octokit } = createClient();
+    octokit.rest.git.updateRef.mockRejectedValue(
+      createRequestError(422, "Update is not a fast forward"),
+    );
+
+    await expect(client.updateRef(repo, "commit456")).rejects.toMatchObject({
+      code: "EBRANCHMOVED",
+    });
+    expect(octokit.rest.git.updateRef).toHaveBeenCalledTimes(1);
+  });
+
+  it("should create commits on a branch with createCommitOnBranch", async () => {
+    const { client, octokit } = createClient();
+    octokit.graphql.mockResolvedValue({
+      createCommitOnBranch: {
+        commit: {
+          oid: "commit456",
+          url: "url",
+          message: "chore(release): 1.0.0\n\nNotes",
+          tree: { oid: "tree456" },
+        },
+      },
+    });
+
+    const commit = await client.createCommitOnBranch(
+      repo,
+      "abc123",
+      "chore(release): 1.0.0\n\nNotes",
+      [{ path: "dist/index.js", contents: "aGVsbG8=" }],
+      [{ path: "dist/old.js" }],
+    );
+
+    expect(commit).toMatchObject({
+      sha: "commit456",
+      tree: { sha: "tree456" },
+      parents: [{ sha: "abc123" }],
+    });
+    expect(octokit.graphql).toHaveBeenCalledWith(expect.any(String), {
+      input: {
+        branch: { repositoryNameWithOwner: "owner/repo", branchName: "main" },
+        expectedHeadOid: "abc123",
+        message: { headline: "chore(release): 1.0.0", body: "Notes" },
+        fileChanges: {
+          additions: [{ path: "dist/index.js", contents: "aGVsbG8=" }],
+          deletions: [{ path: "dist/old.js" }],
+        },
+      },
+    });
+  });
+
+  it("should report a moved head in createCommitOnBranch as EBRANCHMOVED", async () => {
+    const { client, octokit } = createClient();
+    octokit.graphql.mockRejectedValue(
+      new Error("Expected branch to point to \"abc123\" but it did not."),
+    );
+
+    await expect(
+      client.createCommitOnBranch(repo, "abc123", "message", [], []),
+    ).rejects.toMatchObject({ code: "EBRANCHMOVED" });
+  });
+
+  it("should merge pull requests with the release commit message", async () => {
+    const { client, octokit } = createClient();
+    octokit.rest.pulls.merge.mockResolvedValue({ data: {} });
+
+    await client.mergePullRequest(
+      repo,
+      42,
+      "squash",
+      "chore(release): 1.0.0 [skip ci]\n\nSigned-off-by: Bot <bot@example.com>",
+    );
+
+    expect(octokit.rest.pulls.merge).toHaveBeenCalledWith({
+      owner: "owner",
+      repo: "repo",
+      pull_number: 42,
+      merge_method: "squash",
+      commit_title: "chore(release): 1.0.0 [skip ci]",
+      commit_message: "Signed-off-by: Bot <bot@example.com>",
+    });
+  });
+
+  it("should enable auto-merge with the release commit message", async () => {
+    const { client, octokit } = createClient();
+    octokit.graphql.mockResolvedValue({});
+
+    await client.enableAutoMerge(
+      {
+        number: 42,
+        nodeId: "PR_42",
+        url: "url",
+        state: "open",
+        merged: false,
+        mergeCommitSha: null,
+      },
+      "merge",
+      "chore(release): 1.0.0 [skip ci]\n\nNotes",
+    );
+
+    expect(octokit.graphql).toHaveBeenCalledWith(expect.any(String), {
+      pullRequestId: "PR_42",
+      mergeMethod: "MERGE",
+      commitHeadline: "chore(release): 1.0.0 [skip ci]",
+      commitBody: "Notes",
+    });
+  });
+
+  it("should report inaccessible repositories as ENOREPO", async () => {
+    const { client, octokit } = createClient();
+    octokit.rest.repos.get.mockRejectedValue(
+      createRequestError(404, "Not Found"),
+    );
+
+    await expect(client.getRepository(repo)).rejects.toMatchObject({
+      code: "ENOREPO",
+    });
+  });
+
+  it("should report missing branches as ENOBRANCH", async () => {
+    const { client, octokit } = createClient();
+    octokit.rest.repos.getBranch.mockRejectedValue(
+      createRequestError(404, "Branch not found"),
+    );
+
+    await expect(client.getBranch(repo)).rejects.toMatchObject({
+      code: "ENOBRANCH",
+      message: "Branch main does not exist in owner/repo",
+    });
+  });
+
+  it("should create an annotated tag and point the tag ref to it", async () => {
+    const { client, octokit } = createClient();
+    octokit.rest.git.createTag.mockResolvedValue({ data: { sha: "tag123" } });
+    octokit.rest.git.updateRef.mockResolvedValue({ data: {} });
+
+    await expect(
+      client.createTag(repo, "v1.2.0", "Release v1.2.0", "commit456"),
+    ).resolves.toBe("tag123");
+    expect(octokit.rest.git.createTag).toHaveBeenCalledWith({
+      owner: "owner",
+      repo: "repo",
+      tag: "v1.2.0",
+      message: "Release v1.2.0",
+      object: "commit456",
+      type: "commit",
+    });
+    expect(octokit.rest.git.updateRef).toHaveBeenCalledWith({
+      owner: "owner",
+      repo: "repo",
+      ref: "tags/v1.2.0",
+      sha: "tag123",
+      force: true,
+    });
+  });
+
+  it("should report a failed tag ref update as EGHAPI", async () => {
+    const { client, octokit } = createClient();
+    octokit.rest.git.createTag.mockResolvedValue({ data: { sha: "tag123" } });
+    octokit.rest.git.updateRef.mockRejectedValue(
+      createRequestError(422, "Reference does not exist"),
+    );
+
+    await expect(
+      client.createTag(repo, "v1.2.0", "v1.2.0", "commit456", {
+        name: "Bot",
+        email: "bot@example.com",
+      }),
+    ).rejects.toMatchObject({
+      code: "EGHAPI",
+      message: "Failed to update ref tags/v1.2.0 to tag123",
+    });
+    expect(octokit.rest.git.createTag).toHaveBeenCalledWith(
+      expect.objectContaining({
+        tagger: expect.objectContaining({ name: "Bot" }),
+      }),
+    );
+  });
+
+  it("should limit the number of concurrent requests", async () => {
+    const { client, octokit } = createClient({ maxConcurrency: 2 });
+    let active = 0;
+    let maxActive = 0;
+    octokit.rest.git.createBlob.mockImplementation(async () => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await new Promise((resolve) => setImmediate(resolve));
+      active--;
+      return { data: { sha: "blob123", url: "url" } };
+    });
+
+    await Promise.all(
+      Array.from({ length: 5 }, () =>
+        client.createBlob(repo, "content", "utf-8"),
+      ),
+    );
+
+    expect(octokit.rest.git.createBlob).toHaveBeenCalledTimes(5);
+    expect(maxActive).toBe(2);
+  });
+});
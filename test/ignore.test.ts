@@ -0,0 +1,232 @@
+import { mkdir, mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { execa } from "execa";
+import {
+  excludeIgnoredFiles,
+  findIgnoreRule,
+  parseIgnoreFile,
+} from "../src/ignore";
+
+const mockExeca = execa as unknown as jest.Mock;
+
+const resolved = (...paths: string[]) =>
+  paths.map((path) => ({ path, source: path }));
+
+describe("parseIgnoreFile", () => {
+  it("should parse patterns, negations and escapes with their line", () => {
+    expect(
+      parseIgnoreFile("# maps\n*.map\n\n!keep.map\n\\#notes  \n", ".ignore"),
+    ).toEqual([
+      { pattern: "*.map", negated: false, base: "", origin: ".ignore:2" },
+      { pattern: "keep.map", negated: true, base: "", origin: ".ignore:4" },
+      { pattern: "#notes", negated: false, base: "", origin: ".ignore:5" },
+    ]);
+  });
+});
+
+describe("findIgnoreRule", () => {
+  const rules = parseIgnoreFile(
+    "*.map\n!keep.map\n/build/\n.DS_Store\ndocs/*.tmp\n",
+    ".ignore",
+  );
+
+  it("should match patterns without a slash at any depth", () => {
+    expect(findIgnoreRule(rules, "dist/lib/a.js.map")?.origin).toBe(
+      ".ignore:1",
+    );
+    expect(findIgnoreRule(rules, "dist/.DS_Store")?.origin).toBe(".ignore:4");
+  });
+
+  it("should let later negated rules re-include files", () => {
+    expect(findIgnoreRule(rules, "dist/keep.map")).toBeUndefined();
+  });
+
+  it("should match directories and everything below them", () => {
+    expect(findIgnoreRule(rules, "build/out/a.js")?.origin).toBe(".ignore:3");
+    expect(findIgnoreRule(rules, "dist/build/a.js")).toBeUndefined();
+    expect(findIgnoreRule(rules, "build")).toBeUndefined();
+  });
+
+  it("should anchor patterns containing a slash", () => {
+    expect(findIgnoreRule(rules, "docs/a.tmp")?.origin).toBe(".ignore:5");
+    expect(findIgnoreRule(rules, "src/docs/a.tmp")).toBeUndefined();
+  });
+
+  it("should only match files below the directory of the ignore file", () => {
+    const nested = parseIgnoreFile(
+      "*.map\n",
+      "packages/foo/.ignore",
+      "packages/foo",
+    );
+
+    expect(findIgnoreRule(nested, "packages/foo/a.map")).toBeDefined();
+    expect(findIgnoreRule(nested, "packages/bar/a.map")).toBeUndefined();
+  });
+});
+
+describe("excludeIgnoredFiles", () => {
+  let dir: string;
+
+  const options = () => ({
+    cwd: dir,
+    directory: "",
+    root: dir,
+    env: {},
+  });
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "ignore-"));
+    mockExeca.mockReset();
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should keep all files without ignore options", async () => {
+    const files = resolved("dist/index.js", "dist/index.js.map");
+
+    expect(await excludeIgnoredFiles(files, options())).toEqual({
+      files,
+      excluded: [],
+    });
+    expect(mockExeca).not.toHaveBeenCalled();
+  });
+
+  it("should exclude files matching ignore patterns by their local path", async () => {
+    const result = await excludeIgnoredFiles(
+      [
+        { path: "dist/index.js", source: "build/index.js" },
+        { path: "dist/index.js.map", source: "build/index.js.map" },
+      ],
+      { ...options(), ignore: ["build/**/*.map"] },
+    );
+
+    expect(result.files).toEqual([
+      { path: "dist/index.js", source: "build/index.js" },
+    ]);
+    expect(result.excluded).toEqual([
+      {
+        path: "dist/index.js.map",
+        source: "build/index.js.map",
+        rule: 'ignore "build/**/*.map"',
+      },
+    ]);
+  });
+
+  it("should resolve ignore patterns relative to the working directory", async () => {
+    const result = await excludeIgnoredFiles(
+      resolved("packages/foo/a.map", "a.map"),
+      { ...options(), directory: "packages/foo", ignore: ["*.map"] },
+    );
+
+    expect(result.files).toEqual(resolved("a.map"));
+  });
+
+  it("should exclude files matching the rules of the ignore file", async () => {
+    await writeFile(
+      join(dir, ".releaseignore"),
+      "# build info\n*.tsbuildinfo\n",
+    );
+
+    const result = await excludeIgnoredFiles(
+      resolved("dist/index.js", "dist/tsconfig.tsbuildinfo"),
+      { ...options(), ignoreFile: ".releaseignore" },
+    );
+
+    expect(result.files).toEqual(resolved("dist/index.js"));
+    expect(result.excluded).toEqual([
+      {
+        ...resolved("dist/tsconfig.tsbuildinfo")[0],
+        rule: '.releaseignore:2 "*.tsbuildinfo"',
+      },
+    ]);
+  });
+
+  it("should fail when the ignore file cannot be read", async () => {
+    await expect(
+      excludeIgnoredFiles(resolved("dist/index.js"), {
+        ...options(),
+        ignoreFile: ".missing",
+      }),
+    ).rejects.toMatchObject({
+      code: "ENOFILES",
+      message: "Failed to read ignore file .missing",
+    });
+  });
+
+  it("should match the ignore file of a package relative to its directory", async () => {
+    await mkdir(join(dir, "packages/foo"), { recursive: true });
+    await writeFile(join(dir, "packages/foo/.releaseignore"), "/*.log\n");
+
+    const result = await excludeIgnoredFiles(
+      resolved("packages/foo/debug.log", "packages/foo/lib/debug.log"),
+      {
+        ...options(),
+        cwd: join(dir, "packages/foo"),
+        directory: "packages/foo",
+        ignoreFile: ".releaseignore",
+      },
+    );
+
+    expect(result.files).toEqual(resolved("packages/foo/lib/debug.log"));
+  });
+
+  it("should exclude files ignored by git", async () => {
+    mockExeca.mockResolvedValue({
+      stdout: [
+        ".gitignore\x002\x00*.map\x00dist/a.js.map",
+        ".gitignore\x003\x00!keep.map\x00dist/keep.map",
+        "",
+      ].join("\x00"),
+      stderr: "",
+      exitCode: 0,
+    });
+
+    const result = await excludeIgnoredFiles(
+      resolved("dist/a.js", "dist/a.js.map", "dist/keep.map"),
+      { ...options(), respectGitignore: true },
+    );
+
+    expect(mockExeca).toHaveBeenCalledWith(
+      "git",
+      ["check-ignore", "--verbose", "-z", "--stdin"],
+      expect.objectContaining({
+        cwd: dir,
+        input: "dist/a.js\0dist/a.js.map\0dist/keep.map",
+        reject: false,
+      }),
+    );
+    expect(result.files).toEqual(resolved("dist/a.js", "dist/keep.map"));
+    expect(result.excluded).toEqual([
+      { ...resolved("dist/a.js.map")[0], rule: '.gitignore:2 "*.map"' },
+    ]);
+  });
+
+  it("should keep all files when git ignores none of them", async () => {
+    mockExeca.mockResolvedValue({ stdout: "", stderr: "", exitCode: 1 });
+
+    const result = await excludeIgnoredFiles(resolved("dist/a.js"), {
+      ...options(),
+      respectGitignore: true,
+    });
+
+    expect(result.excluded).toEqual([]);
+  });
+
+  it("should fail when git cannot check the ignore rules", async () => {
+    mockExeca.mockResolvedValue({
+      stdout: "",
+      stderr: "fatal: not a git repository",
+      exitCode: 128,
+    });
+
+    await expect(
+      excludeIgnoredFiles(resolved("dist/a.js"), {
+        ...options(),
+        respectGitignore: true,
+      }),
+    ).rejects.toMatchObject({ code: "ENOFILES" });
+  });
+});
@@ -0,0 +1,139 @@
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { uploadLfsObjects } from "../src/lfs";
+import { FileBlob, RepoInfo } from "../src/types";
+
+const repo: RepoInfo = {
+  owner: "owner",
+  repo: "repo",
+  branch: "main",
+  host: "github.com",
+};
+
+const jsonResponse = (body: unknown) =>
+  new Response(JSON.stringify(body), { status: 200 });
+
+describe("uploadLfsObjects", () => {
+  let cwd: string;
+  let fetchMock: jest.SpyInstance;
+  const logger = { log: jest.fn() } as any;
+  const blob: FileBlob = {
+    path: "model.bin",
+    content: "pointer",
+    encoding: "utf-8",
+    lfs: { oid: "oid123", size: 5 },
+  };
+
+  beforeEach(async () => {
+    cwd = await mkdtemp(join(tmpdir(), "github-commit-"));
+    await writeFile(join(cwd, "model.bin"), "hello");
+    fetchMock = jest.spyOn(global, "fetch");
+  });
+
+  afterEach(async () => {
+    fetchMock.mockRestore();
+    await rm(cwd, { recursive: true, force: true });
+  });
+
+  it("should upload and verify objects through the batch API", async () => {
+    fetchMock
+      .mockResolvedValueOnce(
+        jsonResponse({
+          objects: [
+            {
+              oid: "oid123",
+              size: 5,
+              actions: {
+                upload: {
+                  href: "https://lfs.example.com/upload",
+                  header: { Authorization: "RemoteAuth abc" },
+                },
+                verify: { href: "https://lfs.example.com/verify" },
+              },
+            },
+          ],
+        }),
+      )
+      .mockResolvedValue(new Response(null, { status: 200 }));
+
+    const copy = { ...blob, path: "copy.bin" };
+    await uploadLfsObjects(repo, "token", [blob, copy], cwd, logger);
+
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    const [batchUrl, batchInit] = fetchMock.mock.calls[0];
+    expect(batchUrl).toBe(
+      "https://github.com/owner/repo.git/info/lfs/objects/batch",
+    );
+    expect(batchInit.headers.Authorization).toBe(
+      `Basic ${Buffer.from("x-access-token:token").toString("base64")}`,
+    );
+    expect(JSON.parse(batchInit.body)).toEqual({
+      operation: "upload",
+      transfers: ["basic"],
+      ref: { name: "refs/heads/main" },
+      objects: [{ oid: "oid123", size: 5 }],
+    });
+
+    const [uploadUrl, uploadInit] = fetchMock.mock.calls[1];
+    expect(uploadUrl).toBe("https://lfs.example.com/upload");
+    expect(uploadInit.method).toBe("PUT");
+    expect(uploadInit.headers.Authorization).toBe("RemoteAuth abc");
+    expect(uploadInit.body.toString()).toBe("hello");
+
+    expect(fetchMock.mock.calls[2][0]).toBe("https://lfs.example.com/verify");
+  });
+
+  it("should skip objects already stored on the server", async () => {
+    fetchMock.mockResolvedValueOnce(
+      jsonResponse({ objects: [{ oid: "oid123", size: 5 }] }),
+    );
+
+    await uploadLfsObjects(repo, "token", [blob], cwd, logger);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("should not call the server without LFS objects", async () => {
+    await uploadLfsObjects(
+      repo,
+      "token",
+      [{ path: "a.txt", content: "a", encoding: "utf-8" }],
+      cwd,
+      logger,
+    );
+
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("should fail with ELFS when the server rejects an object", async () => {
+    fetchMock.mockResolvedValueOnce(
+      jsonResponse({
+        objects: [
+          { oid: "oid123", size: 5, error: { code: 422, message: "Too big" } },
+        ],
+      }),
+    );
+
+    await expect(
+      uploadLfsObjects(repo, "token", [blob], cwd, logger),
+    ).rejects.toMatchObject({
+      code: "ELFS",
+      message: "Git LFS server rejected model.bin",
+      details: "422: Too big",
+    });
+  });
+
+  it("should fail with ELFS on error responses", async () => {
+    fetchMock.mockResolvedValueOnce(
+      new Response("LFS is disabled", { status: 403, statusText: "Forbidden" }),
+    );
+
+    await expect(
+      uploadLfsObjects(repo, "token", [blob], cwd, logger),
+    ).rejects.toMatchObject({
+      code: "ELFS",
+      details: "403 Forbidden: LFS is disabled",
+    });
+  });
+});
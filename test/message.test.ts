@@ -0,0 +1,214 @@
+import {
+  buildCommitMessage,
+  formatFileList,
+  formatTrailers,
+  validateTrailers,
+} from "../src/message";
+import { FileBlob, GitHubTreeItem } from "../src/types";
+import { getBlobSha } from "../src/utils";
+
+const blob = (path: string, content: string) => {
+  const file: FileBlob = { path, content, encoding: "utf-8" };
+  return { ...file, sha: getBlobSha(file) };
+};
+
+const remoteBlobs = new Map<string, GitHubTreeItem>([
+  [
+    "CHANGELOG.md",
+    { path: "CHANGELOG.md", mode: "100644", type: "blob", sha: "a", size: 10 },
+  ],
+  [
+    "dist/old.js",
+    { path: "dist/old.js", mode: "100644", type: "blob", sha: "b", size: 30 },
+  ],
+  [
+    "dist/app.js",
+    { path: "dist/app.js", mode: "100644", type: "blob", sha: "c" },
+  ],
+]);
+
+const templateContext = {
+  nextRelease: { version: "1.2.0", notes: "## Features\n\n* one\n* two\n" },
+};
+
+const options = {
+  option: "commitMessage",
+  files: [],
+  deletions: [],
+  remoteBlobs,
+};
+
+describe("formatFileList", () => {
+  it("should mark added, modified and deleted files with their size difference", () => {
+    expect(
+      formatFileList(
+        [
+          blob("CHANGELOG.md", "0123456789abcd"),
+          blob("dist/new.js", "new"),
+          blob("dist/app.js", "app"),
+        ],
+        [{ path: "dist/old.js", reason: "missing" }],
+        remoteBlobs,
+      ),
+    ).toBe(
+      [
+        "M CHANGELOG.md (+4 bytes)",
+        "A dist/new.js (+3 bytes)",
+        "M dist/app.js",
+        "D dist/old.js (-30 bytes)",
+      ].join("\n"),
+    );
+  });
+});
+
+describe("formatTrailers", () => {
+  it("should render one line per value and the sign-off", () => {
+    expect(
+      formatTrailers(
+        {
+          "Release-Version": "${nextRelease.version}",
+          "Co-authored-by": ["A <a@example.com>", "B <b@example.com>"],
+        },
+        templateContext,
+        { name: "Bot", email: "bot@example.com" },
+      ),
+    ).toEqual([
+      "Release-Version: 1.2.0",
+      "Co-authored-by: A <a@example.com>",
+      "Co-authored-by: B <b@example.com>",
+      "Signed-off-by: Bot <bot@example.com>",
+    ]);
+  });
+});
+
+describe("validateTrailers", () => {
+  it.each([
+    [[], 'Plugin option "trailers" must be an object'],
+    [{ "Co authored": "a" }, 'Trailer key "Co authored"'],
+    [{ "Key:": "a" }, 'Trailer key "Key:"'],
+    [{ Key: 1 }, 'Plugin option "trailers.Key" must be a string'],
+    [{ Key: [] }, 'Plugin option "trailers.Key" must be a string'],
+  ])("should reject the invalid trailers %j", (trailers, message) => {
+    expect(() => validateTrailers(trailers)).toThrow(message);
+  });
+});
+
+describe("buildCommitMessage", () => {
+  it("should keep the rendered template as-is without body or trailers", () => {
+    expect(
+      buildCommitMessage(
+        "release ${nextRelease.version}\n",
+        templateContext,
+        {},
+        options,
+      ),
+    ).toBe("release 1.2.0\n");
+  });
+
+  it("should add the file list and trailers as paragraphs", () => {
+    expect(
+      buildCommitMessage(
+        "release ${nextRelease.version}\n",
+        templateContext,
+        { commitFileList: true, trailers: { "Release-Version": "1.2.0" } },
+        { ...options, files: [blob("dist/new.js", "new")] },
+      ),
+    ).toBe(
+      "release 1.2.0\n\nA dist/new.js (+3 bytes)\n\nRelease-Version: 1.2.0",
+    );
+  });
+
+  it("should only sign off with a signer when signOff is set", () => {
+    const signer = { name: "Bot", email: "bot@example.com" };
+
+    expect(
+      buildCommitMessage(
+        "release",
+        templateContext,
+        {},
+        { ...options, signer },
+      ),
+    ).toBe("release");
+    expect(
+      buildCommitMessage(
+        "release",
+        templateContext,
+        { signOff: true },
+        { ...options, signer },
+      ),
+    ).toBe("release\n\nSigned-off-by: Bot <bot@example.com>");
+  });
+
+  it("should truncate the release notes at a line to fit the maximum length", () => {
+    const notes = Array.from({ length: 100 }, (_, i) => `* change ${i}`).join(
+      "\n",
+    );
+    const message = buildCommitMessage(
+      "release\n\n${nextRelease.notes}",
+      { nextRelease: { version: "1.2.0", notes } },
+      { maxMessageLength: 200, trailers: { "Release-Version": "1.2.0" } },
+      options,
+    );
+
+    expect(Buffer.byteLength(message)).toBeLessThanOrEqual(200);
+    expect(message).toMatch(
+      /^release\n\n\* change 0\n[^]*\n\* change \d+\n\n\.\.\. \(release notes truncated\)\n\nRelease-Version: 1\.2\.0$/,
+    );
+  });
+
+  it("should share the maximum length between the copies of the release notes", () => {
+    const notes = Array.from({ length: 200 }, (_, i) => `* change ${i}`).join(
+      "\n",
+    );
+    const message = buildCommitMessage(
+      "release\n\n${nextRelease.notes}\n\n${nextRelease.notes}",
+      { nextRelease: { version: "1.2.0", notes } },
+      { maxMessageLength: 1000 },
+      options,
+    );
+
+    expect(Buffer.byteLength(message)).toBeLessThanOrEqual(1000);
+    expect(Buffer.byteLength(message)).toBeGreaterThan(950);
+  });
+
+  it("should not split characters when truncating the release notes", () => {
+    const message = buildCommitMessage(
+      "${nextRelease.notes}",
+      { nextRelease: { version: "1.2.0", notes: "🎉".repeat(50) } },
+      { maxMessageLength: 100 },
+      options,
+    );
+
+    expect(Buffer.byteLength(message)).toBeLessThanOrEqual(100);
+    expect(message).not.toContain("�");
+    expect(message).toMatch(/^(🎉)+\n\n\.\.\. \(release notes truncated\)$/);
+  });
+
+  it("should fail when the message without release notes exceeds the maximum length", () => {
+    expect(() =>
+      buildCommitMessage(
+        "x".repeat(20),
+        templateContext,
+        { maxMessageLength: 10 },
+        options,
+      ),
+    ).toThrow(
+      expect.objectContaining({
+        code: "EINVALIDCONFIG",
+        message:
+          'Plugin option "commitMessage" renders a commit message of 20 bytes, over maxMessageLength (10)',
+      }),
+    );
+  });
+
+  it("should fail when truncating the release notes is not enough", () => {
+    expect(() =>
+      buildCommitMessage(
+        "chore(release): ${nextRelease.version}\n\n${nextRelease.notes}",
+        { nextRelease: { version: "1.2.0", notes: "* change" } },
+        { maxMessageLength: 10 },
+        options,
+      ),
+    ).toThrow(expect.objectContaining({ code: "EINVALIDCONFIG" }));
+  });
+});
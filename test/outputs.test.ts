@@ -0,0 +1,89 @@
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { writeActionsOutputs, writeManifest } from "../src/outputs";
+import { CommitResult } from "../src/types";
+
+const result: CommitResult = {
+  sha: "0123456789abcdef",
+  url: "https://github.com/owner/repo/commit/0123456789abcdef",
+  treeSha: "fedcba9876543210",
+  repository: "owner/repo",
+  branch: "main",
+  files: ["dist/index.js", "package.json"],
+  deletedFiles: ["dist/old.js"],
+};
+
+describe("outputs", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "outputs-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  describe("writeActionsOutputs", () => {
+    it("should append the commit to the step outputs", async () => {
+      const output = join(dir, "output");
+      await writeFile(output, "previous=value\n");
+
+      await writeActionsOutputs(result, { GITHUB_OUTPUT: output });
+
+      expect(await readFile(output, "utf-8")).toBe(
+        [
+          "previous=value",
+          "commit_sha=0123456789abcdef",
+          "commit_url=https://github.com/owner/repo/commit/0123456789abcdef",
+          "tree_sha=fedcba9876543210",
+          'changed_files=["dist/index.js","package.json"]',
+          'deleted_files=["dist/old.js"]',
+          "",
+        ].join("\n"),
+      );
+    });
+
+    it("should append a summary table of the changed files", async () => {
+      const summary = join(dir, "summary");
+
+      await writeActionsOutputs(result, { GITHUB_STEP_SUMMARY: summary });
+
+      const content = await readFile(summary, "utf-8");
+      expect(content).toContain(
+        "Commit [`0123456`](https://github.com/owner/repo/commit/0123456789abcdef) on `main` of owner/repo",
+      );
+      expect(content).toContain("| `package.json` | updated |");
+      expect(content).toContain("| `dist/old.js` | deleted |");
+    });
+
+    it("should do nothing outside of GitHub Actions", async () => {
+      await expect(writeActionsOutputs(result, {})).resolves.toBeUndefined();
+    });
+
+    it("should fail with EOUTPUT when the output file cannot be written", async () => {
+      await expect(
+        writeActionsOutputs(result, { GITHUB_OUTPUT: join(dir, "a", "b") }),
+      ).rejects.toMatchObject({ code: "EOUTPUT" });
+    });
+  });
+
+  describe("writeManifest", () => {
+    it("should write the commit and release as JSON", async () => {
+      const path = await writeManifest("release/commit.json", dir, result, {
+        version: "1.2.0",
+        gitTag: "v1.2.0",
+        gitHead: "0123456789abcdef",
+        notes: "",
+      });
+
+      expect(path).toBe(join(dir, "release/commit.json"));
+      expect(JSON.parse(await readFile(path, "utf-8"))).toEqual({
+        ...result,
+        version: "1.2.0",
+        gitTag: "v1.2.0",
+      });
+    });
+  });
+});
@@ -1,11 +1,35 @@
 import { prepare } from "../src/prepare";
 import { PluginConfig, SemanticReleaseContext } from "../src/types";
 import { GitHubClient } from "../src/github";
-import { resolveFiles, readFilesAsBlobs } from "../src/files";
+import { getBlobSha } from "../src/utils";
+import {
+  resolveFiles,
+  readFilesAsBlobs,
+  resolveDeletions,
+  inheritModes,
+  findChangedPaths,
+  checkFileSizes,
+  isInlineFile,
+  toRepositoryPath,
+  toRepositoryPattern,
+} from "../src/files";
+import { uploadLfsObjects } from "../src/lfs";
+import {
+  checkLocalChanges,
+  getAutoCrlf,
+  locateRepository,
+  syncLocalRepository,
+} from "../src/sync";
+import { writeActionsOutputs, writeManifest } from "../src/outputs";
+import { createError } from "../src/errors";
+import { generateKeyPairSync } from "crypto";
 
 // Mock dependencies
 jest.mock("../src/github");
 jest.mock("../src/files");
+jest.mock("../src/lfs");
+jest.mock("../src/sync");
+jest.mock("../src/outputs");
 
 const mockResolveFiles = resolveFiles as jest.MockedFunction<
   typeof resolveFiles
@@ -14,6 +38,63 @@ const mockReadFilesAsBlobs = readFilesAsBlobs as jest.MockedFunction<
   typeof readFilesAsBlobs
 >;
 
+const mockResolveDeletions = resolveDeletions as jest.MockedFunction<
+  typeof resolveDeletions
+>;
+
+const mockInheritModes = inheritModes as jest.MockedFunction<
+  typeof inheritModes
+>;
+
+const mockFindChangedPaths = findChangedPaths as jest.MockedFunction<
+  typeof findChangedPaths
+>;
+
+const mockIsInlineFile = isInlineFile as jest.MockedFunction<
+  typeof isInlineFile
+>;
+
+const mockToRepositoryPath = toRepositoryPath as jest.MockedFunction<
+  typeof toRepositoryPath
+>;
+
+const mockToRepositoryPattern = toRepositoryPattern as jest.MockedFunction<
+  typeof toRepositoryPattern
+>;
+
+const mockCheckFileSizes = checkFileSizes as jest.MockedFunction<
+  typeof checkFileSizes
+>;
+
+const mockUploadLfsObjects = uploadLfsObjects as jest.MockedFunction<
+  typeof uploadLfsObjects
+>;
+
+const mockLocateRepository = locateRepository as jest.MockedFunction<
+  typeof locateRepository
+>;
+
+const mockGetAutoCrlf = getAutoCrlf as jest.MockedFunction<typeof getAutoCrlf>;
+
+const mockSyncLocalRepository = syncLocalRepository as jest.MockedFunction<
+  typeof syncLocalRepository
+>;
+
+const mockCheckLocalChanges = checkLocalChanges as jest.MockedFunction<
+  typeof checkLocalChanges
+>;
+
+const mockWriteActionsOutputs = writeActionsOutputs as jest.MockedFunction<
+  typeof writeActionsOutputs
+>;
+
+const mockWriteManifest = writeManifest as jest.MockedFunction<
+  typeof writeManifest
+>;
+
+const resolved = (...paths: string[]) =>
+  paths.map((path) => ({ path, source: path }));
+
 const createMockContext = (
   overrides?: Partial<SemanticReleaseContext>,
 ): SemanticReleaseContext =>
@@ -69,8 +150,48 @@ describe("prepare", () => {
         parents: [{ sha: "abc123" }],
       }),
       updateRef: jest.fn().mockResolvedValue(undefined),
+      getTree: jest.fn().mockResolvedValue({
+        sha: "tree123",
+        tree: [
+          { path: "dist", mode: "040000", type: "tree", sha: "dir123" },
+          { path: "dist/index.js", mode: "100644", type: "blob", sha: "a1" },
+          {
+            path: "dist/old.js",
+            mode: "100644",
+            type: "blob",
+            sha: "a2",
+            size: 30,
+          },
+          { path: "README.md", mode: "100644", type: "blob", sha: "a3" },
+          { path: "bin/cli.js", mode: "100755", type: "blob", sha: "a4" },
+        ],
+      }),
     };
 
+    mockLocateRepository.mockResolvedValue({
+      root: "/test/repo",
+      directory: "",
+    });
+    mockGetAutoCrlf.mockResolvedValue(undefined);
+    mockToRepositoryPattern.mockImplementation(
+      jest.requireActual("../src/files").toRepositoryPattern,
+    );
+    mockResolveDeletions.mockImplementation(
+      jest.requireActual("../src/files").resolveDeletions,
+    );
+    mockInheritModes.mockImplementation(
+      jest.requireActual("../src/files").inheritModes,
+    );
+    mockFindChangedPaths.mockImplementation(
+      jest.requireActual("../src/files").findChangedPaths,
+    );
+    mockIsInlineFile.mockImplementation(
+      jest.requireActual("../src/files").isInlineFile,
+    );
+    mockToRepositoryPath.mockImplementation(
+      jest.requireActual("../src/files").toRepositoryPath,
+    );
+
     (GitHubClient as jest.MockedClass<typeof GitHubClient>).mockImplementation(
       () => mockGitHubClient,
     );
@@ -82,7 +203,9 @@ describe("prepare", () => {
     };
     const context = createMockContext();
 
-    mockResolveFiles.mockResolvedValue(["dist/index.js", "CHANGELOG.md"]);
+    mockResolveFiles.mockResolvedValue(
+      resolved("dist/index.js", "CHANGELOG.md"),
+    );
     mockReadFilesAsBlobs.mockResolvedValue([
       {
         path: "dist/index.js",
@@ -97,10 +220,18 @@ describe("prepare", () => {
     expect(mockResolveFiles).toHaveBeenCalledWith(
       ["dist/**", "CHANGELOG.md"],
       "/test/repo",
+      "",
     );
     expect(mockReadFilesAsBlobs).toHaveBeenCalledWith(
-      ["dist/index.js", "CHANGELOG.md"],
+      resolved("dist/index.js", "CHANGELOG.md"),
       "/test/repo",
+      {
+        forceBinary: undefined,
+        forceText: undefined,
+        lfsPaths: [],
+        textPaths: [],
+        autoTextPaths: [],
+      },
     );
     expect(mockGitHubClient.getRef).toHaveBeenCalled();
     expect(mockGitHubClient.createBlob).toHaveBeenCalledTimes(2);
@@ -129,13 +260,187 @@ describe("prepare", () => {
     expect(mockGitHubClient.createCommit).not.toHaveBeenCalled();
   });
 
+  it("should commit inline files with their rendered content", async () => {
+    const pluginConfig: PluginConfig = {
+      files: [
+        "dist/**",
+        {
+          path: "src/version.ts",
+          content: "export const VERSION = '${nextRelease.version}';\n",
+        },
+      ],
+    };
+    const context = createMockContext({
+      nextRelease: { version: "1.2.0", gitTag: "v1.2.0" },
+    } as any);
+
+    mockResolveFiles.mockResolvedValue([]);
+    mockReadFilesAsBlobs.mockResolvedValue([]);
+
+    await prepare(pluginConfig, context);
+
+    expect(mockReadFilesAsBlobs).toHaveBeenCalledWith(
+      [],
+      "/test/repo",
+      expect.any(Object),
+    );
+    expect(context.logger.log).toHaveBeenCalledWith(
+      "Resolved 1 file(s): src/version.ts (inline)",
+    );
+    expect(mockGitHubClient.createBlob).toHaveBeenCalledWith(
+      expect.any(Object),
+      "export const VERSION = '1.2.0';\n",
+      "utf-8",
+    );
+    expect(mockGitHubClient.createTree).toHaveBeenCalledWith(
+      expect.any(Object),
+      "tree123",
+      [{ path: "src/version.ts", sha: "blob123" }],
+    );
+  });
+
+  it("should replace local files matched at the path of inline files", async () => {
+    const pluginConfig: PluginConfig = {
+      files: ["src/**", { path: "src/version.ts", content: "1.2.0" }],
+    };
+    const context = createMockContext();
+
+    mockResolveFiles.mockResolvedValue(
+      resolved("src/index.ts", "src/version.ts"),
+    );
+    mockReadFilesAsBlobs.mockResolvedValue([
+      { path: "src/index.ts", content: "export {};", encoding: "utf-8" },
+    ]);
+
+    await prepare(pluginConfig, context);
+
+    expect(mockReadFilesAsBlobs).toHaveBeenCalledWith(
+      resolved("src/index.ts"),
+      "/test/repo",
+      expect.any(Object),
+    );
+    expect(mockGitHubClient.createTree).toHaveBeenCalledWith(
+      expect.any(Object),
+      "tree123",
+      [
+        { path: "src/index.ts", sha: "blob123" },
+        { path: "src/version.ts", sha: "blob123" },
+      ],
+    );
+  });
+
+  it("should reject invalid inline file templates", async () => {
+    const pluginConfig: PluginConfig = {
+      files: [{ path: "VERSION", content: "${unknown.value}" }],
+    };
+    const context = createMockContext();
+
+    await expect(prepare(pluginConfig, context)).rejects.toMatchObject({
+      code: "EINVALIDCONFIG",
+      message: 'Plugin option "files[0].content" is not a valid template',
+    });
+  });
+
+  it("should apply replacements to the committed content", async () => {
+    const pluginConfig: PluginConfig = {
+      files: ["README.md"],
+      replacements: [
+        {
+          files: ["README.md"],
+          from: "1.1.0",
+          to: "${nextRelease.version}",
+        },
+      ],
+    };
+    const context = createMockContext({
+      nextRelease: { version: "1.2.0", gitTag: "v1.2.0" },
+    } as any);
+
+    mockResolveFiles.mockResolvedValue(resolved("README.md"));
+    mockReadFilesAsBlobs.mockResolvedValue([
+      { path: "README.md", content: "version-1.1.0-blue", encoding: "utf-8" },
+    ]);
+
+    await prepare(pluginConfig, context);
+
+    expect(context.logger.log).toHaveBeenCalledWith(
+      'Replaced 1 occurrence(s) of "1.1.0" in README.md',
+    );
+    expect(mockGitHubClient.createBlob).toHaveBeenCalledWith(
+      expect.any(Object),
+      "version-1.2.0-blue",
+      "utf-8",
+    );
+    expect(mockSyncLocalRepository).toHaveBeenCalledWith(
+      expect.objectContaining({
+        files: [
+          expect.objectContaining({
+            content: "version-1.2.0-blue",
+            localSha: getBlobSha({
+              content: "version-1.1.0-blue",
+              encoding: "utf-8",
+            }),
+          }),
+        ],
+      }),
+    );
+  });
+
+  it("should fail before calling the API when a replacement matches nothing", async () => {
+    const pluginConfig: PluginConfig = {
+      files: ["README.md"],
+      replacements: [{ files: ["README.md"], from: "0.9.0", to: "1.0.0" }],
+    };
+    const context = createMockContext();
+
+    mockResolveFiles.mockResolvedValue(resolved("README.md"));
+    mockReadFilesAsBlobs.mockResolvedValue([
+      { path: "README.md", content: "version-1.1.0-blue", encoding: "utf-8" },
+    ]);
+
+    await expect(prepare(pluginConfig, context)).rejects.toMatchObject({
+      code: "EREPLACEMENT",
+    });
+    expect(mockGitHubClient.getRef).not.toHaveBeenCalled();
+  });
+
+  it("should check local changes before creating the release commit", async () => {
+    const pluginConfig: PluginConfig = {
+      files: ["CHANGELOG.md"],
+    };
+    const context = createMockContext();
+
+    mockResolveFiles.mockResolvedValue(resolved("CHANGELOG.md"));
+    mockReadFilesAsBlobs.mockResolvedValue([
+      { path: "CHANGELOG.md", content: "# Changelog", encoding: "utf-8" },
+    ]);
+    mockCheckLocalChanges.mockRejectedValueOnce(
+      createError("ELOCALSYNC", "Local changes", "src/wip.ts"),
+    );
+
+    await expect(prepare(pluginConfig, context)).rejects.toMatchObject({
+      code: "ELOCALSYNC",
+    });
+    expect(mockCheckLocalChanges).toHaveBeenCalledWith({
+      mode: "reset",
+      files: [
+        { path: "CHANGELOG.md", content: "# Changelog", encoding: "utf-8" },
+      ],
+      deletions: [],
+      cwd: "/test/repo",
+      env: context.env,
+    });
+    expect(mockGitHubClient.createCommit).not.toHaveBeenCalled();
+    expect(mockGitHubClient.updateRef).not.toHaveBeenCalled();
+  });
+
   it("should skip commit when tree is identical to base tree", async () => {
     const pluginConfig: PluginConfig = {
       files: ["dist/**"],
     };
     const context = createMockContext();
 
-    mockResolveFiles.mockResolvedValue(["dist/index.js"]);
+    mockResolveFiles.mockResolvedValue(resolved("dist/index.js"));
     mockReadFilesAsBlobs.mockResolvedValue([
       {
         path: "dist/index.js",
@@ -167,7 +472,7 @@ describe("prepare", () => {
     };
     const context = createMockContext();
 
-    mockResolveFiles.mockResolvedValue(["dist/index.js"]);
+    mockResolveFiles.mockResolvedValue(resolved("dist/index.js"));
     mockReadFilesAsBlobs.mockResolvedValue([
       {
         path: "dist/index.js",
@@ -202,7 +507,7 @@ describe("prepare", () => {
       },
     });
 
-    mockResolveFiles.mockResolvedValue(["dist/index.js"]);
+    mockResolveFiles.mockResolvedValue(resolved("dist/index.js"));
     mockReadFilesAsBlobs.mockResolvedValue([
       {
         path: "dist/index.js",
@@ -236,7 +541,7 @@ describe("prepare", () => {
       },
     });
 
-    mockResolveFiles.mockResolvedValue(["dist/index.js"]);
+    mockResolveFiles.mockResolvedValue(resolved("dist/index.js"));
     mockReadFilesAsBlobs.mockResolvedValue([
       {
         path: "dist/index.js",
@@ -272,7 +577,7 @@ describe("prepare", () => {
       },
     });
 
-    mockResolveFiles.mockResolvedValue(["dist/index.js"]);
+    mockResolveFiles.mockResolvedValue(resolved("dist/index.js"));
     mockReadFilesAsBlobs.mockResolvedValue([
       {
         path: "dist/index.js",
@@ -293,20 +598,89 @@ describe("prepare", () => {
     );
   });
 
-  it("should handle dry run mode", async () => {
+  it("should append the changed files and trailers to the commit message", async () => {
+    const pluginConfig: PluginConfig = {
+      files: ["dist/**"],
+      commitMessage: "chore(release): ${nextRelease.version}\n",
+      commitFileList: true,
+      trailers: { "Release-Version": "${nextRelease.version}" },
+      signOff: true,
+      committerName: "Release Bot",
+      committerEmail: "release@example.com",
+    };
+    const context = createMockContext({
+      nextRelease: {
+        version: "1.0.0",
+        gitTag: "v1.0.0",
+        gitHead: "abc123",
+        notes: "",
+      },
+    });
+
+    mockResolveFiles.mockResolvedValue(resolved("dist/new.js"));
+    mockReadFilesAsBlobs.mockResolvedValue([
+      { path: "dist/new.js", content: "hello", encoding: "utf-8" },
+    ]);
+
+    await prepare(pluginConfig, context);
+
+    expect(mockGitHubClient.createCommit).toHaveBeenCalledWith(
+      expect.any(Object),
+      [
+        "chore(release): 1.0.0",
+        "A dist/new.js (+5 bytes)",
+        "Release-Version: 1.0.0\nSigned-off-by: Release Bot <release@example.com>",
+      ].join("\n\n"),
+      expect.any(String),
+      expect.any(Array),
+      undefined,
+      { name: "Release Bot", email: "release@example.com" },
+    );
+  });
+
+  it("should classify files against the remote branch in dry run mode", async () => {
     const pluginConfig: PluginConfig = {
       files: ["dist/**"],
       dryRun: true,
     };
-    const context = createMockContext();
+    const context = createMockContext({
+      nextRelease: {
+        version: "1.0.0",
+        gitTag: "v1.0.0",
+        gitHead: "abc123",
+        notes: "",
+      },
+    });
 
-    mockResolveFiles.mockResolvedValue(["dist/index.js", "dist/styles.css"]);
+    mockGitHubClient.getTree.mockResolvedValue({
+      sha: "tree123",
+      tree: [
+        {
+          path: "dist/index.js",
+          mode: "100644",
+          type: "blob",
+          sha: "a1",
+          size: 10,
+        },
+        {
+          path: "dist/same.js",
+          mode: "100644",
+          type: "blob",
+          sha: getBlobSha({ content: "same", encoding: "utf-8" }),
+          size: 4,
+        },
+      ],
+    });
+    mockResolveFiles.mockResolvedValue(
+      resolved("dist/index.js", "dist/same.js", "dist/styles.css"),
+    );
     mockReadFilesAsBlobs.mockResolvedValue([
       {
         path: "dist/index.js",
         content: 'console.log("hello")',
         encoding: "utf-8",
       },
+      { path: "dist/same.js", content: "same", encoding: "utf-8" },
       {
         path: "dist/styles.css",
         content: "body { margin: 0; }",
@@ -317,16 +691,59 @@ describe("prepare", () => {
     await prepare(pluginConfig, context);
 
     expect(context.logger.log).toHaveBeenCalledWith(
-      "[DRY RUN] Would commit the following files:",
+      "  - dist/index.js: modified (utf-8, 10 -> 20 bytes, +10 bytes)",
     );
     expect(context.logger.log).toHaveBeenCalledWith(
-      "  - dist/index.js (utf-8)",
+      "  - dist/same.js: unchanged (utf-8, 4 bytes)",
     );
     expect(context.logger.log).toHaveBeenCalledWith(
-      "  - dist/styles.css (utf-8)",
+      "  - dist/styles.css: added (utf-8, +19 bytes)",
     );
-    expect(mockGitHubClient.getRef).not.toHaveBeenCalled();
+    expect(context.logger.log).toHaveBeenCalledWith(
+      "[DRY RUN] 1 added, 1 modified, 1 unchanged, 0 deleted",
+    );
+    expect(context.logger.log).toHaveBeenCalledWith(
+      "[DRY RUN] Commit message:\nchore(release): 1.0.0 [skip ci]",
+    );
+    expect(mockGitHubClient.getRef).toHaveBeenCalled();
     expect(mockGitHubClient.createBlob).not.toHaveBeenCalled();
+    expect(mockGitHubClient.createTree).not.toHaveBeenCalled();
+    expect(mockGitHubClient.updateRef).not.toHaveBeenCalled();
+    expect(mockSyncLocalRepository).not.toHaveBeenCalled();
+  });
+
+  it("should show a diff of text files in dry run mode", async () => {
+    const pluginConfig: PluginConfig = {
+      files: ["dist/**"],
+      dryRun: true,
+      dryRunDiff: true,
+    };
+    const context = createMockContext();
+
+    mockGitHubClient.getBlob = jest
+      .fn()
+      .mockResolvedValue(Buffer.from("a\nb\n"));
+    mockResolveFiles.mockResolvedValue(resolved("dist/index.js"));
+    mockReadFilesAsBlobs.mockResolvedValue([
+      { path: "dist/index.js", content: "a\nc\n", encoding: "utf-8" },
+    ]);
+
+    await prepare(pluginConfig, context);
+
+    expect(mockGitHubClient.getBlob).toHaveBeenCalledWith(
+      expect.any(Object),
+      "a1",
+    );
+    expect(context.logger.log).toHaveBeenCalledWith(
+      [
+        "--- a/dist/index.js",
+        "+++ b/dist/index.js",
+        "@@ -1,2 +1,2 @@",
+        " a",
+        "-b",
+        "+c",
+      ].join("\n"),
+    );
   });
 
   it("should include author and committer info when provided", async () => {
@@ -339,7 +756,7 @@ describe("prepare", () => {
     };
     const context = createMockContext();
 
-    mockResolveFiles.mockResolvedValue(["dist/index.js"]);
+    mockResolveFiles.mockResolvedValue(resolved("dist/index.js"));
     mockReadFilesAsBlobs.mockResolvedValue([
       {
         path: "dist/index.js",
@@ -366,7 +783,7 @@ describe("prepare", () => {
     };
     const context = createMockContext();
 
-    mockResolveFiles.mockResolvedValue(["assets/logo.png"]);
+    mockResolveFiles.mockResolvedValue(resolved("assets/logo.png"));
     mockReadFilesAsBlobs.mockResolvedValue([
       {
         path: "assets/logo.png",
@@ -396,13 +813,15 @@ describe("prepare", () => {
     });
 
     // Mock resolve to skip actual work
-    mockResolveFiles.mockResolvedValue([]);
+    mockResolveFiles.mockResolvedValue(resolved("dist/index.js"));
+    mockReadFilesAsBlobs.mockResolvedValue([]);
 
     await prepare(pluginConfig, context);
 
     expect(GitHubClient).toHaveBeenCalledWith(
       expect.any(String),
       "https://github.enterprise.com/api/v3",
+      expect.any(Object),
     );
   });
 
@@ -417,9 +836,1410 @@ describe("prepare", () => {
       },
     });
 
+    mockResolveFiles.mockResolvedValue(resolved("dist/index.js"));
+    mockReadFilesAsBlobs.mockResolvedValue([]);
+    await prepare(pluginConfig, context);
+
+    expect(GitHubClient).toHaveBeenCalledWith(
+      expect.any(String),
+      undefined,
+      expect.any(Object),
+    );
+  });
+
+  it("should delete remote files that no longer exist locally", async () => {
+    const pluginConfig: PluginConfig = {
+      files: ["dist/**"],
+      deleteMissing: true,
+    };
+    const context = createMockContext();
+
+    mockResolveFiles.mockResolvedValue(resolved("dist/index.js"));
+    mockReadFilesAsBlobs.mockResolvedValue([
+      {
+        path: "dist/index.js",
+        content: 'console.log("hello")',
+        encoding: "utf-8",
+      },
+    ]);
+
+    await prepare(pluginConfig, context);
+
+    expect(mockGitHubClient.getTree).toHaveBeenCalledWith(
+      expect.any(Object),
+      "tree123",
+    );
+    expect(mockGitHubClient.createTree).toHaveBeenCalledWith(
+      expect.any(Object),
+      "tree123",
+      [
+        { path: "dist/index.js", sha: "blob123" },
+        { path: "dist/old.js", sha: null },
+      ],
+    );
+  });
+
+  it("should delete explicitly removed files even when no files match", async () => {
+    const pluginConfig: PluginConfig = {
+      files: ["dist/**"],
+      remove: ["README.md"],
+    };
+    const context = createMockContext();
+
     mockResolveFiles.mockResolvedValue([]);
+    mockReadFilesAsBlobs.mockResolvedValue([]);
+
+    await prepare(pluginConfig, context);
+
+    expect(mockGitHubClient.createBlob).not.toHaveBeenCalled();
+    expect(mockGitHubClient.createTree).toHaveBeenCalledWith(
+      expect.any(Object),
+      "tree123",
+      [{ path: "README.md", sha: null }],
+    );
+    expect(mockGitHubClient.updateRef).toHaveBeenCalled();
+  });
+
+  it("should list deletions with their size in dry run mode", async () => {
+    const pluginConfig: PluginConfig = {
+      files: ["dist/**"],
+      remove: ["README.md"],
+      deleteMissing: true,
+      dryRun: true,
+    };
+    const context = createMockContext();
+
+    mockResolveFiles.mockResolvedValue(resolved("dist/index.js"));
+    mockReadFilesAsBlobs.mockResolvedValue([
+      {
+        path: "dist/index.js",
+        content: 'console.log("hello")',
+        encoding: "utf-8",
+      },
+    ]);
+
     await prepare(pluginConfig, context);
 
-    expect(GitHubClient).toHaveBeenCalledWith(expect.any(String), undefined);
+    expect(context.logger.log).toHaveBeenCalledWith(
+      "  - dist/old.js: deleted (missing, -30 bytes)",
+    );
+    expect(context.logger.log).toHaveBeenCalledWith(
+      "  - README.md: deleted (removed)",
+    );
+    expect(mockGitHubClient.createBlob).not.toHaveBeenCalled();
+    expect(mockGitHubClient.createTree).not.toHaveBeenCalled();
+  });
+
+  it("should not commit files excluded by ignore patterns", async () => {
+    const pluginConfig: PluginConfig = {
+      files: ["dist/**"],
+      ignore: ["**/*.map"],
+    };
+    const context = createMockContext();
+
+    mockResolveFiles.mockResolvedValue(
+      resolved("dist/index.js", "dist/index.js.map"),
+    );
+    mockReadFilesAsBlobs.mockResolvedValue([
+      {
+        path: "dist/index.js",
+        content: 'console.log("hello")',
+        encoding: "utf-8",
+      },
+    ]);
+
+    await prepare(pluginConfig, context);
+
+    expect(mockReadFilesAsBlobs).toHaveBeenCalledWith(
+      resolved("dist/index.js"),
+      "/test/repo",
+      expect.any(Object),
+    );
+    expect(context.logger.log).toHaveBeenCalledWith(
+      "Excluded 1 file(s) matching ignore rules",
+    );
+    expect(context.logger.log).toHaveBeenCalledWith(
+      '  - dist/index.js.map (ignore "**/*.map")',
+    );
+  });
+
+  it("should not delete files excluded by ignore patterns", async () => {
+    const pluginConfig: PluginConfig = {
+      files: ["dist/**"],
+      ignore: ["dist/old.js"],
+      deleteMissing: true,
+    };
+    const context = createMockContext();
+
+    mockResolveFiles.mockResolvedValue(
+      resolved("dist/index.js", "dist/old.js"),
+    );
+    mockReadFilesAsBlobs.mockResolvedValue([
+      {
+        path: "dist/index.js",
+        content: 'console.log("hello")',
+        encoding: "utf-8",
+      },
+    ]);
+
+    await prepare(pluginConfig, context);
+
+    expect(mockGitHubClient.createTree).toHaveBeenCalledWith(
+      expect.any(Object),
+      "tree123",
+      [{ path: "dist/index.js", sha: "blob123" }],
+    );
+  });
+
+  it("should list excluded files with their rule in dry run mode", async () => {
+    const pluginConfig: PluginConfig = {
+      files: ["dist/**"],
+      ignore: ["**/.DS_Store"],
+      dryRun: true,
+    };
+    const context = createMockContext();
+
+    mockResolveFiles.mockResolvedValue(
+      resolved("dist/index.js", "dist/.DS_Store"),
+    );
+    mockReadFilesAsBlobs.mockResolvedValue([
+      {
+        path: "dist/index.js",
+        content: 'console.log("hello")',
+        encoding: "utf-8",
+      },
+    ]);
+
+    await prepare(pluginConfig, context);
+
+    expect(context.logger.log).toHaveBeenCalledWith(
+      "[DRY RUN] Excluded by ignore rules:",
+    );
+    expect(context.logger.log).toHaveBeenCalledWith(
+      '  - dist/.DS_Store: ignore "**/.DS_Store"',
+    );
+    expect(context.logger.log).not.toHaveBeenCalledWith(
+      "Excluded 1 file(s) matching ignore rules",
+    );
+  });
+
+  it("should pass file modes to the tree", async () => {
+    const pluginConfig: PluginConfig = {
+      files: ["bin/**", "current"],
+    };
+    const context = createMockContext();
+
+    mockResolveFiles.mockResolvedValue(resolved("bin/cli.js", "current"));
+    mockReadFilesAsBlobs.mockResolvedValue([
+      {
+        path: "bin/cli.js",
+        content: "#!/usr/bin/env node",
+        encoding: "utf-8",
+        mode: "100755",
+      },
+      {
+        path: "current",
+        content: "releases/1.0.0",
+        encoding: "utf-8",
+        mode: "120000",
+      },
+    ]);
+
+    await prepare(pluginConfig, context);
+
+    expect(mockGitHubClient.createTree).toHaveBeenCalledWith(
+      expect.any(Object),
+      "tree123",
+      [
+        { path: "bin/cli.js", sha: "blob123", mode: "100755" },
+        { path: "current", sha: "blob123", mode: "120000" },
+      ],
+    );
+  });
+
+  it("should inherit file modes from the remote tree", async () => {
+    const pluginConfig: PluginConfig = {
+      files: ["bin/**", "dist/**"],
+      inheritMode: true,
+    };
+    const context = createMockContext();
+
+    mockResolveFiles.mockResolvedValue(resolved("bin/cli.js", "dist/new.js"));
+    mockReadFilesAsBlobs.mockResolvedValue([
+      {
+        path: "bin/cli.js",
+        content: "#!/usr/bin/env node",
+        encoding: "utf-8",
+        mode: "100644",
+      },
+      {
+        path: "dist/new.js",
+        content: "module.exports = {};",
+        encoding: "utf-8",
+        mode: "100755",
+      },
+    ]);
+
+    await prepare(pluginConfig, context);
+
+    expect(mockGitHubClient.createTree).toHaveBeenCalledWith(
+      expect.any(Object),
+      "tree123",
+      [
+        { path: "bin/cli.js", sha: "blob123", mode: "100755" },
+        { path: "dist/new.js", sha: "blob123", mode: "100755" },
+      ],
+    );
+  });
+
+  it("should show non-default file modes in dry run mode", async () => {
+    const pluginConfig: PluginConfig = {
+      files: ["bin/**"],
+      dryRun: true,
+    };
+    const context = createMockContext();
+
+    mockResolveFiles.mockResolvedValue(resolved("bin/cli.js"));
+    mockReadFilesAsBlobs.mockResolvedValue([
+      {
+        path: "bin/cli.js",
+        content: "#!/usr/bin/env node",
+        encoding: "utf-8",
+        mode: "100755",
+      },
+    ]);
+
+    await prepare(pluginConfig, context);
+
+    expect(context.logger.log).toHaveBeenCalledWith(
+      "  - bin/cli.js: modified (utf-8, 100755, 19 bytes)",
+    );
+  });
+
+  it("should only upload files that differ from the base tree", async () => {
+    const pluginConfig: PluginConfig = {
+      files: ["dist/**"],
+    };
+    const context = createMockContext();
+    const unchanged = { content: "unchanged", encoding: "utf-8" as const };
+
+    mockGitHubClient.getTree.mockResolvedValue({
+      sha: "tree123",
+      tree: [
+        {
+          path: "dist/index.js",
+          mode: "100644",
+          type: "blob",
+          sha: getBlobSha(unchanged),
+        },
+      ],
+    });
+    mockResolveFiles.mockResolvedValue(resolved("dist/index.js", "dist/new.js"));
+    mockReadFilesAsBlobs.mockResolvedValue([
+      { path: "dist/index.js", ...unchanged },
+      { path: "dist/new.js", content: "new", encoding: "utf-8" },
+    ]);
+
+    await prepare(pluginConfig, context);
+
+    expect(mockGitHubClient.getTree).toHaveBeenCalledTimes(1);
+    expect(mockGitHubClient.createBlob).toHaveBeenCalledTimes(1);
+    expect(mockGitHubClient.createBlob).toHaveBeenCalledWith(
+      expect.any(Object),
+      "new",
+      "utf-8",
+    );
+    expect(mockGitHubClient.createTree).toHaveBeenCalledWith(
+      expect.any(Object),
+      "tree123",
+      [{ path: "dist/new.js", sha: "blob123" }],
+    );
+  });
+
+  it("should skip commit before uploading when all files are unchanged", async () => {
+    const pluginConfig: PluginConfig = {
+      files: ["dist/**"],
+    };
+    const context = createMockContext();
+    const unchanged = { content: "unchanged", encoding: "utf-8" as const };
+
+    mockGitHubClient.getTree.mockResolvedValue({
+      sha: "tree123",
+      tree: [
+        {
+          path: "dist/index.js",
+          mode: "100644",
+          type: "blob",
+          sha: getBlobSha(unchanged),
+        },
+      ],
+    });
+    mockResolveFiles.mockResolvedValue(resolved("dist/index.js"));
+    mockReadFilesAsBlobs.mockResolvedValue([
+      { path: "dist/index.js", ...unchanged },
+    ]);
+
+    await prepare(pluginConfig, context);
+
+    expect(context.logger.log).toHaveBeenCalledWith(
+      expect.stringContaining("No changes detected"),
+    );
+    expect(mockGitHubClient.createBlob).not.toHaveBeenCalled();
+    expect(mockGitHubClient.createTree).not.toHaveBeenCalled();
+    expect(mockGitHubClient.createCommit).not.toHaveBeenCalled();
+  });
+
+  it("should upload identical content only once", async () => {
+    const pluginConfig: PluginConfig = {
+      files: ["dist/**"],
+    };
+    const context = createMockContext();
+
+    mockResolveFiles.mockResolvedValue(resolved("dist/a.js", "dist/b.js"));
+    mockReadFilesAsBlobs.mockResolvedValue([
+      { path: "dist/a.js", content: "same", encoding: "utf-8" },
+      { path: "dist/b.js", content: "same", encoding: "utf-8" },
+    ]);
+
+    await prepare(pluginConfig, context);
+
+    expect(mockGitHubClient.createBlob).toHaveBeenCalledTimes(1);
+    expect(mockGitHubClient.createTree).toHaveBeenCalledWith(
+      expect.any(Object),
+      "tree123",
+      [
+        { path: "dist/a.js", sha: "blob123" },
+        { path: "dist/b.js", sha: "blob123" },
+      ],
+    );
+  });
+
+  it("should reuse existing blobs when only the file mode changed", async () => {
+    const pluginConfig: PluginConfig = {
+      files: ["bin/**"],
+    };
+    const context = createMockContext();
+    const script = { content: "#!/bin/sh", encoding: "utf-8" as const };
+
+    mockGitHubClient.getTree.mockResolvedValue({
+      sha: "tree123",
+      tree: [
+        {
+          path: "bin/cli.sh",
+          mode: "100644",
+          type: "blob",
+          sha: getBlobSha(script),
+        },
+      ],
+    });
+    mockResolveFiles.mockResolvedValue(resolved("bin/cli.sh"));
+    mockReadFilesAsBlobs.mockResolvedValue([
+      { path: "bin/cli.sh", ...script, mode: "100755" },
+    ]);
+
+    await prepare(pluginConfig, context);
+
+    expect(mockGitHubClient.createBlob).not.toHaveBeenCalled();
+    expect(mockGitHubClient.createTree).toHaveBeenCalledWith(
+      expect.any(Object),
+      "tree123",
+      [{ path: "bin/cli.sh", sha: getBlobSha(script), mode: "100755" }],
+    );
+  });
+
+  it("should pass request options to GitHubClient", async () => {
+    const pluginConfig: PluginConfig = {
+      files: ["dist/**"],
+      maxConcurrency: 4,
+      maxRetries: 5,
+    };
+    const context = createMockContext();
+
+    mockResolveFiles.mockResolvedValue(resolved("dist/index.js"));
+    mockReadFilesAsBlobs.mockResolvedValue([]);
+    await prepare(pluginConfig, context);
+
+    expect(GitHubClient).toHaveBeenCalledWith(expect.any(String), undefined, {
+      maxConcurrency: 4,
+      maxRetries: 5,
+      logger: context.logger,
+    });
+  });
+
+  describe("when the branch moved during the release", () => {
+    const baseTree = {
+      sha: "tree123",
+      tree: [
+        { path: "dist/index.js", mode: "100644", type: "blob", sha: "a1" },
+      ],
+    };
+    let headTree: typeof baseTree;
+
+    beforeEach(() => {
+      headTree = {
+        sha: "tree789",
+        tree: [
+          ...baseTree.tree,
+          { path: "src/feature.ts", mode: "100644", type: "blob", sha: "b1" },
+        ],
+      };
+      mockGitHubClient.getRef
+        .mockResolvedValueOnce({
+          ref: "refs/heads/main",
+          object: { sha: "abc123", type: "commit" },
+        })
+        .mockResolvedValue({
+          ref: "refs/heads/main",
+          object: { sha: "def456", type: "commit" },
+        });
+      mockGitHubClient.getCommit.mockImplementation(
+        async (_repo: any, sha: string) => ({
+          sha,
+          tree: { sha: sha === "abc123" ? "tree123" : "tree789" },
+          parents: [],
+        }),
+      );
+      mockGitHubClient.getTree.mockImplementation(
+        async (_repo: any, sha: string) =>
+          sha === "tree123" ? baseTree : headTree,
+      );
+      mockResolveFiles.mockResolvedValue(resolved("dist/index.js"));
+      mockReadFilesAsBlobs.mockResolvedValue([
+        {
+          path: "dist/index.js",
+          content: 'console.log("hello")',
+          encoding: "utf-8",
+        },
+      ]);
+    });
+
+    it("should rebase the commit onto the new head and retry", async () => {
+      const pluginConfig: PluginConfig = {
+        files: ["dist/**"],
+      };
+      const context = createMockContext();
+
+      mockGitHubClient.updateRef
+        .mockRejectedValueOnce(createError("EBRANCHMOVED", "branch moved"))
+        .mockResolvedValue(undefined);
+
+      await prepare(pluginConfig, context);
+
+      expect(mockGitHubClient.createBlob).toHaveBeenCalledTimes(1);
+      expect(mockGitHubClient.createTree).toHaveBeenLastCalledWith(
+        expect.any(Object),
+        "tree789",
+        [{ path: "dist/index.js", sha: "blob123" }],
+      );
+      expect(mockGitHubClient.createCommit).toHaveBeenCalledTimes(2);
+      expect(mockGitHubClient.createCommit).toHaveBeenLastCalledWith(
+        expect.any(Object),
+        expect.any(String),
+        "newtree456",
+        ["def456"],
+        undefined,
+        undefined,
+      );
+      expect(mockGitHubClient.updateRef).toHaveBeenCalledTimes(2);
+    });
+
+    it("should fail with ECONFLICT when committed files changed upstream", async () => {
+      const pluginConfig: PluginConfig = {
+        files: ["dist/**"],
+      };
+      const context = createMockContext();
+
+      headTree.tree[0] = { ...headTree.tree[0], sha: "changed" };
+      mockGitHubClient.updateRef.mockRejectedValue(
+        createError("EBRANCHMOVED", "branch moved"),
+      );
+
+      await expect(prepare(pluginConfig, context)).rejects.toMatchObject({
+        code: "ECONFLICT",
+        details: "dist/index.js",
+      });
+      expect(mockGitHubClient.createCommit).toHaveBeenCalledTimes(1);
+    });
+
+    it("should give up after the configured number of retries", async () => {
+      const pluginConfig: PluginConfig = {
+        files: ["dist/**"],
+        maxRebaseRetries: 1,
+      };
+      const context = createMockContext();
+
+      mockGitHubClient.updateRef.mockRejectedValue(
+        createError("EBRANCHMOVED", "branch moved"),
+      );
+
+      await expect(prepare(pluginConfig, context)).rejects.toMatchObject({
+        code: "EBRANCHMOVED",
+      });
+      expect(mockGitHubClient.updateRef).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  it("should normalize line endings according to core.autocrlf", async () => {
+    const pluginConfig: PluginConfig = {
+      files: ["dist/**"],
+    };
+    const context = createMockContext();
+
+    mockGetAutoCrlf.mockResolvedValue("true");
+    mockResolveFiles.mockResolvedValue(resolved("dist/index.js"));
+    mockReadFilesAsBlobs.mockResolvedValue([
+      {
+        path: "dist/index.js",
+        content: 'console.log("hello")\n',
+        encoding: "utf-8",
+        normalized: true,
+      },
+    ]);
+
+    await prepare(pluginConfig, context);
+
+    expect(mockGetAutoCrlf).toHaveBeenCalledWith("/test/repo", context.env);
+    expect(mockReadFilesAsBlobs).toHaveBeenCalledWith(
+      resolved("dist/index.js"),
+      "/test/repo",
+      expect.objectContaining({
+        textPaths: [],
+        autoTextPaths: ["dist/index.js"],
+      }),
+    );
+    expect(context.logger.log).toHaveBeenCalledWith(
+      "Normalized CRLF line endings to LF: dist/index.js",
+    );
+  });
+
+  it("should upload Git LFS objects of changed files before committing", async () => {
+    const pluginConfig: PluginConfig = {
+      files: ["dist/**"],
+    };
+    const context = createMockContext();
+    const lfsBlob = {
+      path: "dist/model.bin",
+      content: "version https://git-lfs.github.com/spec/v1\n",
+      encoding: "utf-8" as const,
+      lfs: { oid: "oid123", size: 5 },
+    };
+
+    mockResolveFiles.mockResolvedValue(resolved("dist/model.bin"));
+    mockReadFilesAsBlobs.mockResolvedValue([lfsBlob]);
+    mockUploadLfsObjects.mockImplementation(async () => {
+      expect(mockGitHubClient.createTree).not.toHaveBeenCalled();
+    });
+
+    await prepare(pluginConfig, context);
+
+    expect(mockUploadLfsObjects).toHaveBeenCalledWith(
+      expect.objectContaining({ owner: "owner", repo: "repo" }),
+      "test-token",
+      [expect.objectContaining({ path: "dist/model.bin", lfs: lfsBlob.lfs })],
+      "/test/repo",
+      context.logger,
+    );
+    expect(mockGitHubClient.createTree).toHaveBeenCalled();
+  });
+
+  it("should sync the local repository to the release commit", async () => {
+    const pluginConfig: PluginConfig = {
+      files: ["dist/**"],
+      localSync: "merge",
+      remove: ["dist/old.js"],
+    };
+    const context = createMockContext();
+    const blob = {
+      path: "dist/index.js",
+      content: 'console.log("hello")',
+      encoding: "utf-8" as const,
+    };
+
+    mockResolveFiles.mockResolvedValue(resolved("dist/index.js"));
+    mockReadFilesAsBlobs.mockResolvedValue([blob]);
+
+    await prepare(pluginConfig, context);
+
+    expect(mockSyncLocalRepository).toHaveBeenCalledWith({
+      mode: "merge",
+      repo: expect.objectContaining({ owner: "owner", repo: "repo" }),
+      token: "test-token",
+      sha: "commit456",
+      files: [blob],
+      deletions: ["dist/old.js"],
+      cwd: "/test/repo",
+      env: context.env,
+      logger: context.logger,
+    });
+  });
+
+  it("should reset the local repository by default", async () => {
+    const pluginConfig: PluginConfig = {
+      files: ["dist/**"],
+    };
+    const context = createMockContext();
+
+    mockResolveFiles.mockResolvedValue(resolved("dist/index.js"));
+    mockReadFilesAsBlobs.mockResolvedValue([
+      { path: "dist/index.js", content: "changed", encoding: "utf-8" },
+    ]);
+
+    await prepare(pluginConfig, context);
+
+    expect(mockSyncLocalRepository).toHaveBeenCalledWith(
+      expect.objectContaining({ mode: "reset" }),
+    );
+  });
+
+  it("should return and output the release commit", async () => {
+    const pluginConfig: PluginConfig = {
+      files: ["dist/**"],
+      remove: ["dist/old.js"],
+      manifest: "release/commit.json",
+    };
+    const nextRelease = {
+      version: "1.2.0",
+      gitTag: "v1.2.0",
+      gitHead: "abc123",
+      notes: "",
+    };
+    const context = createMockContext({ nextRelease });
+
+    mockResolveFiles.mockResolvedValue(resolved("dist/index.js"));
+    mockReadFilesAsBlobs.mockResolvedValue([
+      { path: "dist/index.js", content: "changed", encoding: "utf-8" },
+    ]);
+    mockWriteManifest.mockResolvedValue("/test/repo/release/commit.json");
+
+    const result = await prepare(pluginConfig, context);
+
+    const expected = {
+      sha: "commit456",
+      url: "https://github.com/owner/repo/commit/commit456",
+      treeSha: "newtree456",
+      repository: "owner/repo",
+      branch: "main",
+      files: ["dist/index.js"],
+      deletedFiles: ["dist/old.js"],
+    };
+    expect(result).toEqual(expected);
+    expect(mockWriteActionsOutputs).toHaveBeenCalledWith(expected, context.env);
+    expect(mockWriteManifest).toHaveBeenCalledWith(
+      "release/commit.json",
+      "/test/repo",
+      expected,
+      nextRelease,
+    );
+    expect(context.logger.log).toHaveBeenCalledWith(
+      "Wrote release commit manifest to /test/repo/release/commit.json",
+    );
+  });
+
+  it("should not output anything when nothing is committed", async () => {
+    const pluginConfig: PluginConfig = {
+      files: ["dist/**"],
+      manifest: "release/commit.json",
+    };
+    const context = createMockContext();
+
+    mockResolveFiles.mockResolvedValue([]);
+
+    await expect(prepare(pluginConfig, context)).resolves.toBeUndefined();
+    expect(mockWriteActionsOutputs).not.toHaveBeenCalled();
+    expect(mockWriteManifest).not.toHaveBeenCalled();
+  });
+
+  it("should leave the release tag to the success step", async () => {
+    const pluginConfig: PluginConfig = {
+      files: ["dist/**"],
+      createTag: true,
+    };
+    const context = createMockContext({
+      nextRelease: { version: "1.2.0", gitTag: "v1.2.0", gitHead: "abc123" },
+    } as any);
+
+    mockGitHubClient.createTag = jest.fn();
+    mockResolveFiles.mockResolvedValue(resolved("dist/index.js"));
+    mockReadFilesAsBlobs.mockResolvedValue([
+      { path: "dist/index.js", content: "changed", encoding: "utf-8" },
+    ]);
+
+    await prepare(pluginConfig, context);
+
+    expect(mockGitHubClient.createTag).not.toHaveBeenCalled();
+    expect(context.nextRelease!.gitHead).toBe("commit456");
+  });
+
+  it("should resolve paths relative to the package in a monorepo", async () => {
+    const pluginConfig: PluginConfig = {
+      files: ["CHANGELOG.md", "../../package-lock.json"],
+      forceBinary: ["dist/*.bin"],
+      remove: ["dist/old.js"],
+    };
+    const context = createMockContext({ cwd: "/test/repo/packages/foo" });
+
+    mockLocateRepository.mockResolvedValue({
+      root: "/test/repo",
+      directory: "packages/foo",
+    });
+    mockResolveFiles.mockResolvedValue(
+      resolved("packages/foo/CHANGELOG.md", "package-lock.json"),
+    );
+    mockReadFilesAsBlobs.mockResolvedValue([
+      {
+        path: "packages/foo/CHANGELOG.md",
+        content: "# Changelog",
+        encoding: "utf-8",
+      },
+      { path: "package-lock.json", content: "{}", encoding: "utf-8" },
+    ]);
+    mockGitHubClient.getTree.mockResolvedValue({
+      sha: "tree123",
+      tree: [
+        {
+          path: "packages/foo/dist/old.js",
+          mode: "100644",
+          type: "blob",
+          sha: "a1",
+        },
+        { path: "dist/old.js", mode: "100644", type: "blob", sha: "a2" },
+      ],
+    });
+
+    await prepare(pluginConfig, context);
+
+    expect(mockResolveFiles).toHaveBeenCalledWith(
+      ["CHANGELOG.md", "../../package-lock.json"],
+      "/test/repo/packages/foo",
+      "packages/foo",
+    );
+    expect(mockReadFilesAsBlobs).toHaveBeenCalledWith(
+      expect.any(Array),
+      "/test/repo",
+      expect.objectContaining({
+        forceBinary: ["packages/foo/dist/*.bin"],
+      }),
+    );
+    expect(mockGitHubClient.createTree).toHaveBeenCalledWith(
+      expect.any(Object),
+      "tree123",
+      [
+        {
+          path: "packages/foo/CHANGELOG.md",
+          sha: "blob123",
+          mode: undefined,
+        },
+        { path: "package-lock.json", sha: "blob123", mode: undefined },
+        { path: "packages/foo/dist/old.js", sha: null },
+      ],
+    );
+    expect(mockSyncLocalRepository).toHaveBeenCalledWith(
+      expect.objectContaining({ cwd: "/test/repo" }),
+    );
+  });
+
+  it("should check file sizes before calling the API", async () => {
+    const pluginConfig: PluginConfig = {
+      files: ["dist/**"],
+      maxFileSize: 1024,
+      maxTotalSize: 4096,
+    };
+    const context = createMockContext();
+
+    mockResolveFiles.mockResolvedValue(resolved("dist/index.js"));
+    mockCheckFileSizes.mockRejectedValueOnce(
+      createError("EFILETOOLARGE", "too large", "dist/index.js (2048 bytes)"),
+    );
+
+    await expect(prepare(pluginConfig, context)).rejects.toMatchObject({
+      code: "EFILETOOLARGE",
+    });
+    expect(mockCheckFileSizes).toHaveBeenCalledWith(
+      resolved("dist/index.js"),
+      "/test/repo",
+      { maxFileSize: 1024, maxTotalSize: 4096, lfsPaths: [] },
+    );
+    expect(mockReadFilesAsBlobs).not.toHaveBeenCalled();
+    expect(GitHubClient).not.toHaveBeenCalled();
+  });
+
+  describe("with the GraphQL API", () => {
+    beforeEach(() => {
+      mockGitHubClient.createCommitOnBranch = jest.fn().mockResolvedValue({
+        sha: "commit789",
+        url: "url",
+        message: "test commit",
+        tree: { sha: "newtree789" },
+        parents: [{ sha: "abc123" }],
+      });
+      mockResolveFiles.mockResolvedValue(resolved("dist/index.js"));
+      mockReadFilesAsBlobs.mockResolvedValue([
+        {
+          path: "dist/index.js",
+          content: "hello",
+          encoding: "utf-8",
+        },
+      ]);
+    });
+
+    it("should commit with createCommitOnBranch", async () => {
+      const pluginConfig: PluginConfig = {
+        files: ["dist/**"],
+        api: "graphql",
+        remove: ["dist/old.js"],
+      };
+      const context = createMockContext({
+        nextRelease: {
+          version: "1.0.0",
+          gitTag: "v1.0.0",
+          gitHead: "abc123",
+          notes: "",
+        },
+      });
+
+      await prepare(pluginConfig, context);
+
+      expect(mockGitHubClient.createCommitOnBranch).toHaveBeenCalledWith(
+        expect.any(Object),
+        "abc123",
+        "chore(release): 1.0.0 [skip ci]",
+        [{ path: "dist/index.js", contents: "aGVsbG8=" }],
+        [{ path: "dist/old.js" }],
+      );
+      expect(mockGitHubClient.createBlob).not.toHaveBeenCalled();
+      expect(mockGitHubClient.updateRef).not.toHaveBeenCalled();
+      expect(context.nextRelease!.gitHead).toBe("commit789");
+    });
+
+    it("should retry on the new head when the branch moved", async () => {
+      const pluginConfig: PluginConfig = {
+        files: ["dist/**"],
+        api: "graphql",
+      };
+      const context = createMockContext();
+
+      mockGitHubClient.getRef
+        .mockResolvedValueOnce({
+          ref: "refs/heads/main",
+          object: { sha: "abc123", type: "commit" },
+        })
+        .mockResolvedValue({
+          ref: "refs/heads/main",
+          object: { sha: "def456", type: "commit" },
+        });
+      mockGitHubClient.createCommitOnBranch.mockRejectedValueOnce(
+        createError("EBRANCHMOVED", "branch moved"),
+      );
+
+      await prepare(pluginConfig, context);
+
+      expect(mockGitHubClient.createCommitOnBranch).toHaveBeenCalledTimes(2);
+      expect(mockGitHubClient.createCommitOnBranch).toHaveBeenLastCalledWith(
+        expect.any(Object),
+        "def456",
+        expect.any(String),
+        expect.any(Array),
+        [],
+      );
+    });
+
+    it("should fall back to the REST API for executable files", async () => {
+      const pluginConfig: PluginConfig = {
+        files: ["dist/**"],
+        api: "graphql",
+      };
+      const context = createMockContext();
+
+      mockReadFilesAsBlobs.mockResolvedValue([
+        {
+          path: "dist/index.js",
+          content: "hello",
+          encoding: "utf-8",
+          mode: "100755",
+        },
+      ]);
+
+      await prepare(pluginConfig, context);
+
+      expect(mockGitHubClient.createCommitOnBranch).not.toHaveBeenCalled();
+      expect(mockGitHubClient.updateRef).toHaveBeenCalledWith(
+        expect.any(Object),
+        "commit456",
+      );
+      expect(context.logger.log).toHaveBeenCalledWith(
+        expect.stringContaining(
+          "Falling back to the REST API: createCommitOnBranch does not support executable files",
+        ),
+      );
+    });
+
+    it("should fall back to the REST API with a custom author", async () => {
+      const pluginConfig: PluginConfig = {
+        files: ["dist/**"],
+        api: "graphql",
+        authorName: "Release Bot",
+        authorEmail: "bot@example.com",
+      };
+      const context = createMockContext();
+
+      await prepare(pluginConfig, context);
+
+      expect(mockGitHubClient.createCommitOnBranch).not.toHaveBeenCalled();
+      expect(mockGitHubClient.createCommit).toHaveBeenCalled();
+    });
+  });
+
+  describe("with several commits", () => {
+    const nextRelease = {
+      version: "1.2.0",
+      gitTag: "v1.2.0",
+      gitHead: "abc123",
+      notes: "",
+    };
+    const pluginConfig: PluginConfig = {
+      commits: [
+        {
+          files: ["CHANGELOG.md", "package.json"],
+          message: "chore(release): ${nextRelease.version} - ${files.join()}",
+        },
+        {
+          files: ["dist/**"],
+          message: "build: ${nextRelease.version} artifacts",
+          author: { name: "Build Bot", email: "build@example.com" },
+        },
+      ],
+      remove: ["README.md"],
+    };
+
+    beforeEach(() => {
+      mockResolveFiles
+        .mockResolvedValueOnce(resolved("CHANGELOG.md", "package.json"))
+        .mockResolvedValueOnce(resolved("dist/index.js"));
+      mockReadFilesAsBlobs.mockResolvedValue([
+        { path: "CHANGELOG.md", content: "# Changelog", encoding: "utf-8" },
+        { path: "package.json", content: "{}", encoding: "utf-8" },
+        { path: "dist/index.js", content: "built", encoding: "utf-8" },
+      ]);
+      mockGitHubClient.createTree
+        .mockResolvedValueOnce({ sha: "tree1", tree: [] })
+        .mockResolvedValueOnce({ sha: "tree2", tree: [] });
+      mockGitHubClient.createCommit
+        .mockResolvedValueOnce({ sha: "commit1", tree: { sha: "tree1" } })
+        .mockResolvedValueOnce({ sha: "commit2", tree: { sha: "tree2" } });
+    });
+
+    it("should chain the commits and move the branch once", async () => {
+      const context = createMockContext({ nextRelease: { ...nextRelease } });
+
+      const result = await prepare(pluginConfig, context);
+
+      expect(mockGitHubClient.createTree).toHaveBeenNthCalledWith(
+        1,
+        expect.any(Object),
+        "tree123",
+        [
+          { path: "CHANGELOG.md", sha: "blob123", mode: undefined },
+          { path: "package.json", sha: "blob123", mode: undefined },
+        ],
+      );
+      expect(mockGitHubClient.createTree).toHaveBeenNthCalledWith(
+        2,
+        expect.any(Object),
+        "tree1",
+        [
+          { path: "dist/index.js", sha: "blob123", mode: undefined },
+          { path: "README.md", sha: null },
+        ],
+      );
+      expect(mockGitHubClient.createCommit).toHaveBeenNthCalledWith(
+        1,
+        expect.any(Object),
+        "chore(release): 1.2.0 - CHANGELOG.md,package.json",
+        "tree1",
+        ["abc123"],
+        undefined,
+        undefined,
+      );
+      expect(mockGitHubClient.createCommit).toHaveBeenNthCalledWith(
+        2,
+        expect.any(Object),
+        "build: 1.2.0 artifacts",
+        "tree2",
+        ["commit1"],
+        { name: "Build Bot", email: "build@example.com" },
+        undefined,
+      );
+      expect(mockGitHubClient.updateRef).toHaveBeenCalledTimes(1);
+      expect(mockGitHubClient.updateRef).toHaveBeenCalledWith(
+        expect.any(Object),
+        "commit2",
+      );
+      expect(context.nextRelease!.gitHead).toBe("commit2");
+      expect(result).toMatchObject({ sha: "commit2", treeSha: "tree2" });
+    });
+
+    it("should rebase the whole chain when the branch moved", async () => {
+      const context = createMockContext({ nextRelease: { ...nextRelease } });
+
+      mockGitHubClient.getRef
+        .mockResolvedValueOnce({ object: { sha: "abc123" } })
+        .mockResolvedValue({ object: { sha: "def456" } });
+      mockGitHubClient.updateRef.mockRejectedValueOnce(
+        createError("EBRANCHMOVED", "branch moved"),
+      );
+      mockGitHubClient.createTree
+        .mockResolvedValueOnce({ sha: "rebased1", tree: [] })
+        .mockResolvedValueOnce({ sha: "rebased2", tree: [] });
+
+      await prepare(pluginConfig, context);
+
+      expect(mockGitHubClient.createTree).toHaveBeenNthCalledWith(
+        4,
+        expect.any(Object),
+        "rebased1",
+        expect.any(Array),
+      );
+      expect(mockGitHubClient.createCommit).toHaveBeenNthCalledWith(
+        3,
+        expect.any(Object),
+        expect.any(String),
+        "rebased1",
+        ["def456"],
+        undefined,
+        undefined,
+      );
+      expect(mockGitHubClient.updateRef).toHaveBeenCalledTimes(2);
+    });
+
+    it("should skip commits without changes", async () => {
+      const context = createMockContext({ nextRelease: { ...nextRelease } });
+
+      mockGitHubClient.getTree.mockResolvedValue({
+        sha: "tree123",
+        tree: [
+          {
+            path: "dist/index.js",
+            mode: "100644",
+            type: "blob",
+            sha: getBlobSha({ content: "built", encoding: "utf-8" }),
+          },
+        ],
+      });
+
+      await prepare({ ...pluginConfig, remove: undefined }, context);
+
+      expect(mockGitHubClient.createCommit).toHaveBeenCalledTimes(1);
+      expect(mockGitHubClient.updateRef).toHaveBeenCalledWith(
+        expect.any(Object),
+        "commit1",
+      );
+      expect(context.logger.log).toHaveBeenCalledWith(
+        "No changes for commit 2 - skipping it",
+      );
+    });
+
+    it("should fall back to the REST API with the GraphQL API", async () => {
+      const context = createMockContext({ nextRelease: { ...nextRelease } });
+      mockGitHubClient.createCommitOnBranch = jest.fn();
+
+      await prepare({ ...pluginConfig, api: "graphql" }, context);
+
+      expect(mockGitHubClient.createCommitOnBranch).not.toHaveBeenCalled();
+      expect(mockGitHubClient.updateRef).toHaveBeenCalledTimes(1);
+    });
+
+    it("should fail when a file is part of several commits", async () => {
+      const context = createMockContext({ nextRelease: { ...nextRelease } });
+
+      mockResolveFiles
+        .mockReset()
+        .mockResolvedValueOnce(resolved("CHANGELOG.md", "dist/index.js"))
+        .mockResolvedValueOnce(resolved("dist/index.js"));
+
+      await expect(prepare(pluginConfig, context)).rejects.toMatchObject({
+        code: "EINVALIDCONFIG",
+        details: "dist/index.js",
+      });
+      expect(GitHubClient).not.toHaveBeenCalled();
+    });
+  });
+
+  it("should render commit message with the full template context", async () => {
+    const pluginConfig: PluginConfig = {
+      files: ["dist/**"],
+      commitMessage:
+        "chore(${branch.name}): ${lastRelease.version} -> ${nextRelease.version} (${nextRelease.type})\n\n" +
+        "<% commits.forEach(function(c) { %>- ${c.subject}\n<% }) %>" +
+        "Files: ${files.join(', ')} in ${owner}/${repo}",
+    };
+    const context = createMockContext({
+      branch: { name: "main" },
+      lastRelease: { version: "1.1.0", gitTag: "v1.1.0", gitHead: "old123" },
+      commits: [{ subject: "feat: add feature" }, { subject: "fix: a bug" }] as any,
+      nextRelease: {
+        type: "minor",
+        version: "1.2.0",
+        gitTag: "v1.2.0",
+        gitHead: "abc123",
+        notes: "",
+      },
+    });
+
+    mockResolveFiles.mockResolvedValue(resolved("dist/index.js"));
+    mockReadFilesAsBlobs.mockResolvedValue([
+      {
+        path: "dist/index.js",
+        content: 'console.log("hello")',
+        encoding: "utf-8",
+      },
+    ]);
+
+    await prepare(pluginConfig, context);
+
+    expect(mockGitHubClient.createCommit).toHaveBeenCalledWith(
+      expect.any(Object),
+      "chore(main): 1.1.0 -> 1.2.0 (minor)\n\n- feat: add feature\n- fix: a bug\nFiles: dist/index.js in owner/repo",
+      expect.any(String),
+      expect.any(Array),
+      undefined,
+      undefined,
+    );
+  });
+
+  describe("in pull-request mode", () => {
+    const nextRelease = {
+      version: "1.2.0",
+      gitTag: "v1.2.0",
+      gitHead: "abc123",
+      notes: "Release notes",
+    };
+
+    beforeEach(() => {
+      mockGitHubClient.createBranch = jest.fn().mockResolvedValue(undefined);
+      mockGitHubClient.deleteBranch = jest.fn().mockResolvedValue(undefined);
+      mockGitHubClient.createPullRequest = jest.fn().mockResolvedValue({
+        number: 42,
+        nodeId: "PR_42",
+        url: "https://github.com/owner/repo/pull/42",
+        state: "open",
+        merged: false,
+        mergeCommitSha: null,
+      });
+      mockGitHubClient.mergePullRequest = jest.fn().mockResolvedValue(undefined);
+      mockGitHubClient.enableAutoMerge = jest.fn().mockResolvedValue(undefined);
+      mockGitHubClient.getPullRequest = jest.fn().mockResolvedValue({
+        number: 42,
+        nodeId: "PR_42",
+        url: "https://github.com/owner/repo/pull/42",
+        state: "closed",
+        merged: true,
+        mergeCommitSha: "merge789",
+      });
+
+      mockResolveFiles.mockResolvedValue(resolved("dist/index.js"));
+      mockReadFilesAsBlobs.mockResolvedValue([
+        {
+          path: "dist/index.js",
+          content: 'console.log("hello")',
+          encoding: "utf-8",
+        },
+      ]);
+    });
+
+    it("should commit through a merged pull request", async () => {
+      const pluginConfig: PluginConfig = {
+        files: ["dist/**"],
+        mode: "pull-request",
+      };
+      const context = createMockContext({ nextRelease: { ...nextRelease } });
+
+      await prepare(pluginConfig, context);
+
+      expect(mockGitHubClient.createCommit).toHaveBeenCalledWith(
+        expect.any(Object),
+        "chore(release): 1.2.0 [skip ci]",
+        "newtree456",
+        ["abc123"],
+        undefined,
+        undefined,
+      );
+      expect(mockGitHubClient.createBranch).toHaveBeenCalledWith(
+        expect.any(Object),
+        "semantic-release/release-1.2.0",
+        "commit456",
+      );
+      expect(mockGitHubClient.createPullRequest).toHaveBeenCalledWith(
+        expect.any(Object),
+        "semantic-release/release-1.2.0",
+        "chore(release): 1.2.0",
+        "Release notes",
+      );
+      expect(mockGitHubClient.mergePullRequest).toHaveBeenCalledWith(
+        expect.any(Object),
+        42,
+        "squash",
+        "chore(release): 1.2.0 [skip ci]",
+      );
+      expect(mockGitHubClient.updateRef).not.toHaveBeenCalled();
+      expect(mockGitHubClient.deleteBranch).toHaveBeenCalledWith(
+        expect.any(Object),
+        "semantic-release/release-1.2.0",
+      );
+      expect(context.nextRelease!.gitHead).toBe("merge789");
+    });
+
+    it("should return the merge commit with its tree", async () => {
+      const pluginConfig: PluginConfig = {
+        files: ["dist/**"],
+        mode: "pull-request",
+      };
+      const context = createMockContext({ nextRelease: { ...nextRelease } });
+
+      mockGitHubClient.getCommit.mockImplementation(
+        async (_repo: unknown, sha: string) => ({
+          sha,
+          tree: { sha: sha === "merge789" ? "mergetree789" : "tree123" },
+          parents: [],
+        }),
+      );
+
+      const result = await prepare(pluginConfig, context);
+
+      expect(result).toMatchObject({
+        sha: "merge789",
+        treeSha: "mergetree789",
+      });
+    });
+
+    it("should enable auto-merge with templated branch and title", async () => {
+      const pluginConfig: PluginConfig = {
+        files: ["dist/**"],
+        mode: "pull-request",
+        pullRequestBranch: "release/${nextRelease.gitTag}",
+        pullRequestTitle: "Release ${nextRelease.version} of ${repo}",
+        pullRequestMerge: "auto",
+        pullRequestMergeMethod: "merge",
+      };
+      const context = createMockContext({ nextRelease: { ...nextRelease } });
+
+      await prepare(pluginConfig, context);
+
+      expect(mockGitHubClient.createPullRequest).toHaveBeenCalledWith(
+        expect.any(Object),
+        "release/v1.2.0",
+        "Release 1.2.0 of repo",
+        "Release notes",
+      );
+      expect(mockGitHubClient.mergePullRequest).not.toHaveBeenCalled();
+      expect(mockGitHubClient.enableAutoMerge).toHaveBeenCalledWith(
+        expect.objectContaining({ number: 42 }),
+        "merge",
+        "chore(release): 1.2.0 [skip ci]",
+      );
+      expect(context.nextRelease!.gitHead).toBe("merge789");
+    });
+
+    it("should keep the commit messages when rebasing", async () => {
+      const pluginConfig: PluginConfig = {
+        files: ["dist/**"],
+        mode: "pull-request",
+        pullRequestMergeMethod: "rebase",
+      };
+      const context = createMockContext({ nextRelease: { ...nextRelease } });
+
+      await prepare(pluginConfig, context);
+
+      expect(mockGitHubClient.mergePullRequest).toHaveBeenCalledWith(
+        expect.any(Object),
+        42,
+        "rebase",
+        undefined,
+      );
+    });
+
+    it("should fail and clean up when the pull request is not merged in time", async () => {
+      const pluginConfig: PluginConfig = {
+        files: ["dist/**"],
+        mode: "pull-request",
+        pullRequestMerge: "none",
+        pullRequestTimeout: 0,
+      };
+      const context = createMockContext({ nextRelease: { ...nextRelease } });
+
+      mockGitHubClient.getPullRequest.mockResolvedValue({
+        number: 42,
+        nodeId: "PR_42",
+        url: "https://github.com/owner/repo/pull/42",
+        state: "open",
+        merged: false,
+        mergeCommitSha: null,
+      });
+
+      await expect(prepare(pluginConfig, context)).rejects.toMatchObject({
+        code: "EPULLREQUEST",
+      });
+      expect(mockGitHubClient.deleteBranch).toHaveBeenCalled();
+      expect(context.nextRelease!.gitHead).toBe("abc123");
+    });
+
+    it("should fail when the pull request is closed without merge", async () => {
+      const pluginConfig: PluginConfig = {
+        files: ["dist/**"],
+        mode: "pull-request",
+        pullRequestMerge: "none",
+      };
+      const context = createMockContext({ nextRelease: { ...nextRelease } });
+
+      mockGitHubClient.getPullRequest.mockResolvedValue({
+        number: 42,
+        nodeId: "PR_42",
+        url: "https://github.com/owner/repo/pull/42",
+        state: "closed",
+        merged: false,
+        mergeCommitSha: null,
+      });
+
+      await expect(prepare(pluginConfig, context)).rejects.toThrow(
+        "closed without being merged",
+      );
+    });
+  });
+
+  it("should use a GitHub App installation token when app credentials are set", async () => {
+    const { privateKey } = generateKeyPairSync("rsa", {
+      modulusLength: 2048,
+      privateKeyEncoding: { type: "pkcs1", format: "pem" },
+      publicKeyEncoding: { type: "spki", format: "pem" },
+    });
+    const pluginConfig: PluginConfig = {
+      files: ["dist/**"],
+    };
+    const context = createMockContext({
+      env: {
+        GITHUB_TOKEN: "test-token",
+        GITHUB_APP_ID: "123",
+        GITHUB_APP_PRIVATE_KEY: privateKey,
+      },
+    });
+
+    mockGitHubClient.getRepoInstallationId = jest.fn().mockResolvedValue(7);
+    mockGitHubClient.createInstallationToken = jest
+      .fn()
+      .mockResolvedValue("ghs_installation");
+    mockResolveFiles.mockResolvedValue(resolved("dist/index.js"));
+    mockReadFilesAsBlobs.mockResolvedValue([]);
+
+    await prepare(pluginConfig, context);
+
+    expect(mockGitHubClient.createInstallationToken).toHaveBeenCalledWith(
+      7,
+      expect.objectContaining({ owner: "owner", repo: "repo" }),
+      { contents: "write" },
+    );
+    expect(GitHubClient).toHaveBeenLastCalledWith(
+      "ghs_installation",
+      undefined,
+      expect.any(Object),
+    );
   });
 });
@@ -0,0 +1,206 @@
+import {
+  applyReplacements,
+  formatReplacement,
+  validateReplacements,
+} from "../src/replacements";
+import { FileBlob } from "../src/types";
+import { getBlobSha } from "../src/utils";
+
+const text = (path: string, content: string): FileBlob => ({
+  path,
+  content,
+  encoding: "utf-8",
+});
+
+const templateContext = { nextRelease: { version: "1.2.0" } };
+
+describe("validateReplacements", () => {
+  it("should accept literal and regex replacements", () => {
+    expect(() =>
+      validateReplacements([
+        { files: ["README.md"], from: "1.1.0", to: "${nextRelease.version}" },
+        { files: ["Chart.yaml"], regex: "^version: .*$", to: "version: 1" },
+      ]),
+    ).not.toThrow();
+  });
+
+  it.each([
+    [{ from: "a", to: "b" }, 'Plugin option "replacements[0].files"'],
+    [
+      { files: [], from: "a", to: "b" },
+      'Plugin option "replacements[0].files"',
+    ],
+    [{ files: ["a"], to: "b" }, 'must have either "from" or "regex"'],
+    [
+      { files: ["a"], from: "a", regex: "a", to: "b" },
+      'must have either "from" or "regex"',
+    ],
+    [{ files: ["a"], from: "", to: "b" }, '"replacements[0].from" must be'],
+    [{ files: ["a"], regex: "(", to: "b" }, "not a valid regular expression"],
+    [{ files: ["a"], from: "a" }, '"replacements[0].to" must be a string'],
+    [{ files: ["a"], from: "a", to: "b", count: 0 }, "must be a positive"],
+  ])("should reject the invalid replacement %j", (replacement, message) => {
+    expect(() => validateReplacements([replacement])).toThrow(message);
+  });
+
+  it("should reject a replacements option that is not an array", () => {
+    expect(() => validateReplacements({})).toThrow(
+      'Plugin option "replacements" must be an array',
+    );
+  });
+});
+
+describe("applyReplacements", () => {
+  it("should replace literal text with the rendered template", () => {
+    const blobs = [
+      text("README.md", "version-1.1.0-blue, 1.1.0"),
+      text("Chart.yaml", "version: 1.1.0"),
+    ];
+
+    const { blobs: replaced, results } = applyReplacements(
+      blobs,
+      [{ files: ["*.md"], from: "1.1.0", to: "${nextRelease.version}" }],
+      "",
+      templateContext,
+    );
+
+    expect(replaced[0]).toEqual({
+      ...blobs[0],
+      content: "version-1.2.0-blue, 1.2.0",
+      localSha: getBlobSha(blobs[0]),
+    });
+    expect(replaced[1]).toEqual(blobs[1]);
+    expect(results).toEqual([{ files: ["README.md"], count: 2 }]);
+    expect(blobs[0].content).toBe("version-1.1.0-blue, 1.1.0");
+  });
+
+  it("should insert literal replacements as-is", () => {
+    const { blobs } = applyReplacements(
+      [text("a.txt", "price")],
+      [{ files: ["a.txt"], from: "price", to: "$&$1" }],
+      "",
+      templateContext,
+    );
+
+    expect(blobs[0].content).toBe("$&$1");
+  });
+
+  it("should replace regex matches line by line with groups", () => {
+    const { blobs } = applyReplacements(
+      [text("Chart.yaml", "name: app\nversion: 1.1.0\nappVersion: 1.1.0\n")],
+      [
+        {
+          files: ["Chart.yaml"],
+          regex: "^(version|appVersion): .*$",
+          to: "$1: ${nextRelease.version}",
+        },
+      ],
+      "",
+      templateContext,
+    );
+
+    expect(blobs[0].content).toBe(
+      "name: app\nversion: 1.2.0\nappVersion: 1.2.0\n",
+    );
+  });
+
+  it("should match files relative to the working directory", () => {
+    const { results } = applyReplacements(
+      [text("packages/foo/README.md", "1.1.0"), text("README.md", "1.1.0")],
+      [{ files: ["README.md"], from: "1.1.0", to: "1.2.0" }],
+      "packages/foo",
+      templateContext,
+    );
+
+    expect(results).toEqual([{ files: ["packages/foo/README.md"], count: 1 }]);
+  });
+
+  it("should keep the local blob SHA across several replacements", () => {
+    const blob = text("README.md", "a b");
+
+    const { blobs } = applyReplacements(
+      [blob],
+      [
+        { files: ["README.md"], from: "a", to: "c" },
+        { files: ["README.md"], from: "b", to: "d" },
+      ],
+      "",
+      templateContext,
+    );
+
+    expect(blobs[0]).toMatchObject({
+      content: "c d",
+      localSha: getBlobSha(blob),
+    });
+  });
+
+  it("should fail when a replacement matches nothing", () => {
+    expect(() =>
+      applyReplacements(
+        [text("README.md", "1.1.0")],
+        [{ files: ["README.md"], from: "0.9.0", to: "1.2.0" }],
+        "",
+        templateContext,
+      ),
+    ).toThrow(
+      expect.objectContaining({
+        code: "EREPLACEMENT",
+        message: 'Replacement of "0.9.0" matched nothing',
+        details: "README.md",
+      }),
+    );
+  });
+
+  it("should allow replacements that are not required to match nothing", () => {
+    const { results } = applyReplacements(
+      [text("README.md", "1.1.0")],
+      [{ files: ["README.md"], from: "0.9.0", to: "1.2.0", required: false }],
+      "",
+      templateContext,
+    );
+
+    expect(results).toEqual([{ files: [], count: 0 }]);
+  });
+
+  it("should fail when a replacement does not match the expected count", () => {
+    expect(() =>
+      applyReplacements(
+        [text("pom.xml", "<version>1.1.0</version><version>1.1.0</version>")],
+        [
+          {
+            files: ["pom.xml"],
+            regex: "<version>[^<]+</version>",
+            to: "<version>1.2.0</version>",
+            count: 1,
+          },
+        ],
+        "",
+        templateContext,
+      ),
+    ).toThrow(
+      "Replacement of /<version>[^<]+</version>/ matched 2 time(s) instead of 1",
+    );
+  });
+
+  it("should refuse to replace text in binary files", () => {
+    expect(() =>
+      applyReplacements(
+        [{ path: "logo.png", content: "iVBORw0K", encoding: "base64" }],
+        [{ files: ["*.png"], from: "a", to: "b" }],
+        "",
+        templateContext,
+      ),
+    ).toThrow(expect.objectContaining({ code: "EREPLACEMENT" }));
+  });
+});
+
+describe("formatReplacement", () => {
+  it("should format literal and regex replacements", () => {
+    expect(formatReplacement({ files: [], from: "1.0", to: "" })).toBe(
+      '"1.0"',
+    );
+    expect(formatReplacement({ files: [], regex: "^v.*", to: "" })).toBe(
+      "/^v.*/",
+    );
+  });
+});
@@ -0,0 +1,179 @@
+import { validatePluginConfig } from "../src/schema";
+import { PluginConfig } from "../src/types";
+
+const context = {
+  env: {},
+  options: { branches: ["main"], repositoryUrl: "https://github.com/o/r" },
+};
+
+/**
+ * Messages of the errors aggregated by validatePluginConfig
+ */
+const getMessages = (pluginConfig: unknown, env = {}): string[] => {
+  try {
+    validatePluginConfig(pluginConfig as PluginConfig, { ...context, env });
+  } catch (error: any) {
+    expect(error).toBeInstanceOf(AggregateError);
+    return error.errors.map((item: Error) => item.message);
+  }
+  return [];
+};
+
+describe("validatePluginConfig", () => {
+  it("should accept a valid configuration", () => {
+    expect(
+      getMessages({
+        files: ["dist/**", { from: "build/", to: "docs/" }],
+        commitMessage: "chore(release): ${nextRelease.version}",
+        githubAppId: 123,
+        maxRetries: 0,
+        mode: "pull-request",
+        dryRun: false,
+      }),
+    ).toEqual([]);
+  });
+
+  it("should report every problem at once", () => {
+    expect(
+      getMessages({
+        files: ["dist/**"],
+        commitMesage: "chore(release)",
+        authorEmail: 42,
+        maxConcurrency: 0,
+        api: "soap",
+      }),
+    ).toEqual([
+      'Unknown plugin option "commitMesage"',
+      'Plugin option "authorEmail" must be a string',
+      'Plugin option "maxConcurrency" must be a positive integer',
+      'Plugin option "api" must be one of: rest, graphql',
+    ]);
+  });
+
+  it("should flag the errors as expected by semantic-release", () => {
+    expect(() =>
+      validatePluginConfig({ files: "dist/**" } as any, context),
+    ).toThrow(
+      expect.objectContaining({
+        semanticRelease: true,
+        errors: [expect.objectContaining({ semanticRelease: true })],
+      }),
+    );
+  });
+
+  it("should suggest the option closest to an unknown key", () => {
+    expect(() =>
+      validatePluginConfig(
+        { files: ["dist/**"], commitMesage: "chore" } as PluginConfig,
+        context,
+      ),
+    ).toThrow(
+      expect.objectContaining({
+        errors: [
+          expect.objectContaining({
+            code: "EINVALIDCONFIG",
+            details: 'Did you mean "commitMessage"?',
+          }),
+        ],
+      }),
+    );
+  });
+
+  it("should accept the semantic-release options merged into the configuration", () => {
+    expect(getMessages({ files: ["dist/**"], branches: ["main"] })).toEqual(
+      [],
+    );
+  });
+
+  it.each([
+    [{ files: "dist/**" }, 'Plugin option "files" must be provided'],
+    [{ files: [1] }, 'Plugin option "files" must contain glob patterns'],
+    [{ files: ["a"], remove: ["a", 1] }, '"remove" must be an array'],
+    [{ files: ["a"], createTag: "yes" }, '"createTag" must be a boolean'],
+    [
+      { files: ["a"], localSync: "fetch" },
+      '"localSync" must be one of: reset, merge',
+    ],
+    [{ files: ["a"], githubAppId: 1.5 }, '"githubAppId" must be a string or'],
+    [
+      { commits: [{ files: ["a"], message: "m", title: "t" }] },
+      'Plugin option "commits[0]" has unknown keys: title',
+    ],
+    [
+      {
+        commits: [
+          {
+            files: ["a"],
+            message: "m",
+            author: { name: "n", email: "e", date: "now" },
+          },
+        ],
+      },
+      'Plugin option "commits[0].author" has unknown keys: date',
+    ],
+    [
+      {
+        files: ["a"],
+        replacements: [{ files: ["a"], from: "x", to: "y", cout: 1 }],
+      },
+      'Plugin option "replacements[0]" has unknown keys: cout',
+    ],
+    [
+      {
+        files: ["a"],
+        replacements: [{ files: ["a"], from: "x", to: "y", required: "no" }],
+      },
+      'Plugin option "replacements[0].required" must be a boolean',
+    ],
+    [
+      { files: [{ from: "a", to: "b", mode: "100755" }] },
+      'Plugin option "files" has unknown keys: mode',
+    ],
+    [
+      { files: [{ path: "a", content: "", encoding: "utf-8" }] },
+      'Plugin option "files" has unknown keys: encoding',
+    ],
+    [{}, 'Plugin option "files" must be provided'],
+  ])("should reject the invalid configuration %j", (pluginConfig, message) => {
+    expect(getMessages(pluginConfig)).toEqual([
+      expect.stringContaining(message),
+    ]);
+  });
+
+  it("should require both the name and the email of an identity", () => {
+    expect(
+      getMessages({
+        files: ["dist/**"],
+        authorName: "Release Bot",
+        committerEmail: "bot@example.com",
+      }),
+    ).toEqual([
+      'Plugin option "authorName" requires "authorEmail"',
+      'Plugin option "committerEmail" requires "committerName"',
+    ]);
+  });
+
+  it("should complete an identity with the environment", () => {
+    expect(
+      getMessages(
+        { files: ["dist/**"], authorName: "Release Bot" },
+        { GIT_AUTHOR_EMAIL: "bot@example.com" },
+      ),
+    ).toEqual([]);
+  });
+
+  it("should accept signOff when every commit has an author", () => {
+    expect(
+      getMessages({
+        commits: [
+          {
+            files: ["dist/**"],
+            message: "build",
+            author: { name: "Bot", email: "bot@example.com" },
+          },
+        ],
+        signOff: true,
+      }),
+    ).toEqual([]);
+  });
+});
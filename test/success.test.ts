@@ -0,0 +1,106 @@
+import { success } from "../src/success";
+import { PluginConfig, SemanticReleaseContext } from "../src/types";
+import { GitHubClient } from "../src/github";
+
+jest.mock("../src/github");
+
+const nextRelease = {
+  version: "1.2.0",
+  gitTag: "v1.2.0",
+  gitHead: "commit456",
+  notes: "Release notes",
+};
+
+const createMockContext = (
+  overrides?: Partial<SemanticReleaseContext>,
+): SemanticReleaseContext =>
+  ({
+    env: {
+      GITHUB_TOKEN: "test-token",
+    },
+    logger: {
+      log: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      success: jest.fn(),
+    },
+    options: {
+      repositoryUrl: "https://github.com/owner/repo.git",
+      branches: ["main"],
+    },
+    nextRelease: { ...nextRelease },
+    ...overrides,
+  }) as any;
+
+describe("success", () => {
+  let mockGitHubClient: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockGitHubClient = {
+      createTag: jest.fn().mockResolvedValue("tag789"),
+    };
+    (GitHubClient as jest.MockedClass<typeof GitHubClient>).mockImplementation(
+      () => mockGitHubClient,
+    );
+  });
+
+  it("should replace the tag pushed by semantic-release with an annotated tag", async () => {
+    const pluginConfig: PluginConfig = {
+      files: ["dist/**"],
+      createTag: true,
+      tagMessage: "Release ${nextRelease.version}\n\n${nextRelease.notes}",
+      committerName: "Release Bot",
+      committerEmail: "bot@example.com",
+    };
+    const context = createMockContext();
+
+    await success(pluginConfig, context);
+
+    // semantic-release sets gitHead to the local HEAD, synced to the release
+    // commit, then tags and pushes it with git before the success step
+    expect(mockGitHubClient.createTag).toHaveBeenCalledWith(
+      expect.objectContaining({ owner: "owner", repo: "repo" }),
+      "v1.2.0",
+      "Release 1.2.0\n\nRelease notes",
+      "commit456",
+      { name: "Release Bot", email: "bot@example.com" },
+    );
+    expect(context.logger.log).toHaveBeenCalledWith(
+      "Replaced tag v1.2.0 with annotated tag tag789 of commit456",
+    );
+  });
+
+  it("should use the tag name as the default message", async () => {
+    await success({ files: ["dist/**"], createTag: true }, createMockContext());
+
+    expect(mockGitHubClient.createTag).toHaveBeenCalledWith(
+      expect.any(Object),
+      "v1.2.0",
+      "v1.2.0",
+      "commit456",
+      undefined,
+    );
+  });
+
+  it("should not create the tag in dry run mode", async () => {
+    const context = createMockContext();
+
+    await success(
+      { files: ["dist/**"], createTag: true, dryRun: true },
+      context,
+    );
+
+    expect(GitHubClient).not.toHaveBeenCalled();
+    expect(context.logger.log).toHaveBeenCalledWith(
+      "[DRY RUN] Would create annotated tag v1.2.0",
+    );
+  });
+
+  it("should not create the tag without createTag", async () => {
+    await success({ files: ["dist/**"] }, createMockContext());
+
+    expect(GitHubClient).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,331 @@
+import { mkdir, mkdtemp, realpath, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { execa } from "execa";
+import {
+  LocalSyncOptions,
+  checkLocalChanges,
+  getAutoCrlf,
+  getGitAuthEnv,
+  locateRepository,
+  syncLocalRepository,
+} from "../src/sync";
+import { RepoInfo } from "../src/types";
+import { getBlobSha } from "../src/utils";
+
+const mockExeca = execa as unknown as jest.Mock;
+
+const repo: RepoInfo = {
+  owner: "owner",
+  repo: "repo",
+  branch: "main",
+  host: "github.com",
+};
+
+describe("getGitAuthEnv", () => {
+  it("should pass the token as an extra header instead of in the URL", () => {
+    const env = getGitAuthEnv(repo, "secret", { PATH: "/bin" });
+
+    expect(env).toEqual({
+      PATH: "/bin",
+      GIT_TERMINAL_PROMPT: "0",
+      GIT_CONFIG_COUNT: "2",
+      GIT_CONFIG_KEY_0: "http.https://github.com/.extraheader",
+      GIT_CONFIG_VALUE_0: "",
+      GIT_CONFIG_KEY_1: "http.https://github.com/.extraheader",
+      GIT_CONFIG_VALUE_1: `AUTHORIZATION: basic ${Buffer.from("x-access-token:secret").toString("base64")}`,
+    });
+  });
+
+  it("should keep configuration already passed through the environment", () => {
+    const env = getGitAuthEnv(repo, "secret", {
+      GIT_CONFIG_COUNT: "1",
+      GIT_CONFIG_KEY_0: "core.autocrlf",
+      GIT_CONFIG_VALUE_0: "false",
+    });
+
+    expect(env).toMatchObject({
+      GIT_CONFIG_COUNT: "3",
+      GIT_CONFIG_KEY_0: "core.autocrlf",
+      GIT_CONFIG_KEY_2: "http.https://github.com/.extraheader",
+    });
+  });
+});
+
+describe("locateRepository", () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await realpath(await mkdtemp(join(tmpdir(), "github-commit-")));
+    await mkdir(join(root, "packages", "foo"), { recursive: true });
+    mockExeca.mockReset();
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("should find the path of the working directory in the repository", async () => {
+    mockExeca.mockResolvedValue({ stdout: `${root}\n` });
+
+    await expect(
+      locateRepository(join(root, "packages", "foo"), {}),
+    ).resolves.toEqual({ root, directory: "packages/foo" });
+    expect(mockExeca).toHaveBeenCalledWith(
+      "git",
+      ["rev-parse", "--show-toplevel"],
+      expect.objectContaining({ cwd: join(root, "packages", "foo") }),
+    );
+  });
+
+  it("should use the working directory outside of a git repository", async () => {
+    mockExeca.mockRejectedValue(new Error("not a git repository"));
+
+    await expect(locateRepository(root, {})).resolves.toEqual({
+      root,
+      directory: "",
+    });
+  });
+});
+
+describe("getAutoCrlf", () => {
+  beforeEach(() => {
+    mockExeca.mockReset();
+  });
+
+  it("should read core.autocrlf from the git configuration", async () => {
+    mockExeca.mockResolvedValue({ stdout: "true\n" });
+
+    await expect(getAutoCrlf("/repo", {})).resolves.toBe("true");
+    expect(mockExeca).toHaveBeenCalledWith(
+      "git",
+      ["config", "--type=bool-or-str", "--get", "core.autocrlf"],
+      expect.objectContaining({ cwd: "/repo" }),
+    );
+  });
+
+  it("should return undefined when core.autocrlf is not set", async () => {
+    mockExeca.mockRejectedValue(new Error("exit code 1"));
+
+    await expect(getAutoCrlf("/repo", {})).resolves.toBeUndefined();
+  });
+});
+
+describe("syncLocalRepository", () => {
+  let cwd: string;
+  let options: LocalSyncOptions;
+  let outputs: Record<string, string>;
+
+  const gitCalls = () => mockExeca.mock.calls.map(([, args]) => args);
+
+  beforeEach(async () => {
+    cwd = await mkdtemp(join(tmpdir(), "github-commit-"));
+    await writeFile(join(cwd, "CHANGELOG.md"), "# Changelog");
+    outputs = { "rev-parse": "commit456\n" };
+    mockExeca.mockReset();
+    mockExeca.mockImplementation(async (_file: string, args: string[]) => ({
+      stdout: outputs[args[0]] ?? "",
+    }));
+    options = {
+      mode: "reset",
+      repo,
+      token: "secret",
+      sha: "commit456",
+      files: [
+        { path: "CHANGELOG.md", content: "# Changelog", encoding: "utf-8" },
+      ],
+      deletions: ["old.txt"],
+      cwd,
+      env: {},
+      logger: { log: jest.fn() } as any,
+    };
+  });
+
+  afterEach(async () => {
+    await rm(cwd, { recursive: true, force: true });
+  });
+
+  it("should fetch the commit and reset to it", async () => {
+    await syncLocalRepository(options);
+
+    expect(gitCalls()).toEqual([
+      [
+        "fetch",
+        "--no-tags",
+        "https://github.com/owner/repo.git",
+        "refs/heads/main",
+      ],
+      ["cat-file", "-e", "commit456^{commit}"],
+      ["reset", "--hard", "commit456"],
+      ["rev-parse", "HEAD"],
+    ]);
+    const [, fetchArgs, fetchOptions] = mockExeca.mock.calls[0];
+    expect(fetchArgs.join(" ")).not.toContain("secret");
+    expect(fetchOptions.env.GIT_CONFIG_VALUE_1).toMatch(
+      /^AUTHORIZATION: basic /,
+    );
+  });
+
+  it("should fast-forward to the commit with merge", async () => {
+    await syncLocalRepository({ ...options, mode: "merge" });
+
+    expect(mockExeca).toHaveBeenCalledWith(
+      "git",
+      [
+        "checkout",
+        "commit456",
+        "--pathspec-from-file=-",
+        "--pathspec-file-nul",
+      ],
+      expect.objectContaining({ input: "CHANGELOG.md" }),
+    );
+    expect(gitCalls()).toContainEqual(["merge", "--ff-only", "commit456"]);
+    expect(gitCalls()).not.toContainEqual(expect.arrayContaining(["diff"]));
+  });
+
+  it("should fail when the local HEAD is not the release commit", async () => {
+    outputs["rev-parse"] = "other789\n";
+
+    await expect(syncLocalRepository(options)).rejects.toMatchObject({
+      code: "ELOCALSYNC",
+      message: "Local HEAD is other789 instead of the release commit commit456",
+    });
+  });
+
+  it("should report git failures without the token", async () => {
+    mockExeca.mockRejectedValueOnce(
+      Object.assign(new Error("Command failed"), {
+        stderr: "fatal: repository not found",
+      }),
+    );
+
+    await expect(syncLocalRepository(options)).rejects.toMatchObject({
+      code: "ELOCALSYNC",
+      message: "Failed to run git fetch in the local repository",
+      details: "fatal: repository not found",
+    });
+  });
+});
+
+describe("checkLocalChanges", () => {
+  let cwd: string;
+  let options: Parameters<typeof checkLocalChanges>[0];
+  let diff: string;
+
+  beforeEach(async () => {
+    cwd = await mkdtemp(join(tmpdir(), "github-commit-"));
+    await writeFile(join(cwd, "CHANGELOG.md"), "# Changelog");
+    diff = "";
+    mockExeca.mockReset();
+    mockExeca.mockImplementation(async () => ({ stdout: diff }));
+    options = {
+      mode: "reset",
+      files: [
+        { path: "CHANGELOG.md", content: "# Changelog", encoding: "utf-8" },
+      ],
+      deletions: ["old.txt"],
+      cwd,
+      env: {},
+    };
+  });
+
+  afterEach(async () => {
+    await rm(cwd, { recursive: true, force: true });
+  });
+
+  it("should accept local changes to the released files", async () => {
+    diff = "CHANGELOG.md\nold.txt";
+
+    await expect(checkLocalChanges(options)).resolves.toBeUndefined();
+    expect(mockExeca).toHaveBeenCalledWith(
+      "git",
+      ["diff", "--no-renames", "--name-only", "HEAD"],
+      expect.objectContaining({ cwd }),
+    );
+  });
+
+  it("should reject local changes outside the release commit with reset", async () => {
+    diff = "CHANGELOG.md\nsrc/wip.ts";
+
+    await expect(checkLocalChanges(options)).rejects.toMatchObject({
+      code: "ELOCALSYNC",
+      details: "src/wip.ts",
+    });
+  });
+
+  it("should reject committed files changed since they were read", async () => {
+    await writeFile(join(cwd, "CHANGELOG.md"), "# Changelog\n\nEdited");
+
+    await expect(checkLocalChanges(options)).rejects.toMatchObject({
+      code: "ELOCALSYNC",
+      details: "CHANGELOG.md",
+    });
+  });
+
+  it("should compare files modified in memory with their local content", async () => {
+    diff = "CHANGELOG.md";
+
+    await expect(
+      checkLocalChanges({
+        ...options,
+        files: [
+          {
+            path: "CHANGELOG.md",
+            content: "# Changelog 1.2.0",
+            encoding: "utf-8",
+            localSha: getBlobSha({ content: "# Changelog", encoding: "utf-8" }),
+          },
+        ],
+      }),
+    ).resolves.toBeUndefined();
+  });
+
+  it("should not run git diff with merge and no mapped file", async () => {
+    await checkLocalChanges({ ...options, mode: "merge" });
+
+    expect(mockExeca).not.toHaveBeenCalled();
+  });
+
+  it("should reject local changes at the path of mapped files with merge", async () => {
+    diff = "docs/CHANGELOG.md\nsrc/wip.ts";
+
+    await expect(
+      checkLocalChanges({
+        ...options,
+        mode: "merge",
+        files: [
+          {
+            path: "docs/CHANGELOG.md",
+            source: "CHANGELOG.md",
+            content: "# Changelog",
+            encoding: "utf-8",
+          },
+        ],
+      }),
+    ).rejects.toMatchObject({
+      code: "ELOCALSYNC",
+      details: "docs/CHANGELOG.md",
+    });
+  });
+
+  it("should only check local changes at the path of inline files", async () => {
+    const files = [
+      {
+        path: "VERSION",
+        content: "1.0.0",
+        encoding: "utf-8" as const,
+        inline: true,
+      },
+    ];
+    diff = "VERSION";
+
+    await expect(
+      checkLocalChanges({ ...options, mode: "merge", files }),
+    ).rejects.toMatchObject({ code: "ELOCALSYNC", details: "VERSION" });
+
+    diff = "";
+    await expect(
+      checkLocalChanges({ ...options, mode: "merge", files }),
+    ).resolves.toBeUndefined();
+  });
+});
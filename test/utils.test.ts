@@ -3,6 +3,7 @@ import {
   parseRepositoryUrl,
   getRepoInfo,
   getGitIdentity,
+  getBlobSha,
 } from "../src/utils";
 import { SemanticReleaseContext } from "../src/types";
 
@@ -272,3 +273,24 @@ describe("getGitIdentity", () => {
     });
   });
 });
+
+describe("getBlobSha", () => {
+  it("should compute the git blob SHA of text content", () => {
+    expect(getBlobSha({ content: "hello\n", encoding: "utf-8" })).toBe(
+      "ce013625030ba8dba906f756967f9e9ca394464a",
+    );
+  });
+
+  it("should compute the git blob SHA of empty content", () => {
+    expect(getBlobSha({ content: "", encoding: "utf-8" })).toBe(
+      "e69de29bb2d1d6434b8b29ae775ad8c2e48c5391",
+    );
+  });
+
+  it("should compute the git blob SHA of base64 content", () => {
+    const content = Buffer.from("hello\n").toString("base64");
+    expect(getBlobSha({ content, encoding: "base64" })).toBe(
+      "ce013625030ba8dba906f756967f9e9ca394464a",
+    );
+  });
+});
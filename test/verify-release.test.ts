@@ -0,0 +1,44 @@
+import { verifyRelease } from "../src/verify-release";
+import { prepare } from "../src/prepare";
+import { PluginConfig, SemanticReleaseContext } from "../src/types";
+
+jest.mock("../src/prepare");
+
+const mockPrepare = prepare as jest.MockedFunction<typeof prepare>;
+
+const createMockContext = (dryRun?: boolean): SemanticReleaseContext =>
+  ({
+    env: { GITHUB_TOKEN: "test-token" },
+    logger: { log: jest.fn() },
+    options: {
+      repositoryUrl: "https://github.com/owner/repo.git",
+      branches: ["main"],
+      dryRun,
+    },
+    nextRelease: { version: "1.2.0", gitTag: "v1.2.0", gitHead: "commit123" },
+  }) as any;
+
+describe("verifyRelease", () => {
+  const pluginConfig: PluginConfig = { files: ["dist/**"] };
+
+  beforeEach(() => {
+    mockPrepare.mockReset();
+  });
+
+  it("should show the changes in semantic-release's dry-run mode", async () => {
+    const context = createMockContext(true);
+
+    await verifyRelease(pluginConfig, context);
+
+    expect(mockPrepare).toHaveBeenCalledWith(
+      { files: ["dist/**"], dryRun: true },
+      context,
+    );
+  });
+
+  it("should leave the changes to the prepare step otherwise", async () => {
+    await verifyRelease(pluginConfig, createMockContext());
+
+    expect(mockPrepare).not.toHaveBeenCalled();
+  });
+});
@@ -1,5 +1,9 @@
 import { verifyConditions } from "../src/verify";
 import { PluginConfig, SemanticReleaseContext } from "../src/types";
+import { GitHubClient } from "../src/github";
+import { createError } from "../src/errors";
+
+jest.mock("../src/github");
 
 const createMockContext = (
   overrides?: Partial<SemanticReleaseContext>,
@@ -21,7 +25,45 @@ const createMockContext = (
     ...overrides,
   }) as any;
 
+/**
+ * Errors thrown by verifyConditions, with the errors of an AggregateError
+ * listed separately like semantic-release does
+ */
+const getErrors = async (promise: Promise<unknown>): Promise<unknown[]> => {
+  try {
+    await promise;
+  } catch (error: any) {
+    return error.errors ?? [error];
+  }
+  return [];
+};
+
 describe("verifyConditions", () => {
+  let mockGitHubClient: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockGitHubClient = {
+      getRepository: jest.fn().mockResolvedValue({
+        fullName: "owner/repo",
+        archived: false,
+        permissions: { admin: false, push: true },
+      }),
+      getBranch: jest.fn().mockResolvedValue({
+        name: "main",
+        sha: "abc123",
+        protected: false,
+      }),
+      getBranchRules: jest.fn().mockResolvedValue([]),
+      getRulesetBypass: jest.fn().mockResolvedValue("never"),
+    };
+
+    (GitHubClient as jest.MockedClass<typeof GitHubClient>).mockImplementation(
+      () => mockGitHubClient,
+    );
+  });
+
   it("should pass verification with valid config", async () => {
     const pluginConfig: PluginConfig = {
       files: ["dist/**", "CHANGELOG.md"],
@@ -78,6 +120,25 @@ describe("verifyConditions", () => {
     ).resolves.toBeUndefined();
   });
 
+  it("should throw error when GitHub App private key is invalid", async () => {
+    const pluginConfig: PluginConfig = {
+      files: ["dist/**"],
+    };
+    const context = createMockContext({
+      env: {
+        GITHUB_APP_ID: "123",
+        GITHUB_APP_PRIVATE_KEY: "not a key",
+      },
+    });
+
+    await expect(verifyConditions(pluginConfig, context)).rejects.toMatchObject(
+      {
+        code: "EGHNOAUTH",
+        message: "GitHub App private key is not a valid PEM private key",
+      },
+    );
+  });
+
   it("should throw error when files option is missing", async () => {
     const pluginConfig = {} as PluginConfig;
     const context = createMockContext();
@@ -98,6 +159,29 @@ describe("verifyConditions", () => {
     );
   });
 
+  it("should report all invalid options at once", async () => {
+    const pluginConfig = {
+      files: ["dist/**"],
+      commitMesage: "chore(release): ${nextRelease.version}",
+      authorName: "Release Bot",
+    } as any;
+    const context = createMockContext();
+
+    await expect(verifyConditions(pluginConfig, context)).rejects.toThrow(
+      AggregateError,
+    );
+    expect(await getErrors(verifyConditions(pluginConfig, context))).toEqual([
+      expect.objectContaining({
+        code: "EINVALIDCONFIG",
+        message: 'Unknown plugin option "commitMesage"',
+      }),
+      expect.objectContaining({
+        code: "EINVALIDCONFIG",
+        message: 'Plugin option "authorName" requires "authorEmail"',
+      }),
+    ]);
+  });
+
   it("should throw error when files array is empty", async () => {
     const pluginConfig: PluginConfig = {
       files: [],
@@ -109,6 +193,316 @@ describe("verifyConditions", () => {
     );
   });
 
+  it("should throw error when remove option is not an array", async () => {
+    const pluginConfig = {
+      files: ["dist/**"],
+      remove: "dist/old.js",
+    } as any;
+    const context = createMockContext();
+
+    await expect(verifyConditions(pluginConfig, context)).rejects.toThrow(
+      'remove" must be an array',
+    );
+  });
+
+  it("should reject invalid replacements", async () => {
+    const pluginConfig = {
+      files: ["README.md"],
+      replacements: [{ files: ["README.md"], regex: "(", to: "1.0.0" }],
+    } as any;
+    const context = createMockContext();
+
+    expect(await getErrors(verifyConditions(pluginConfig, context))).toEqual([
+      expect.objectContaining({
+        code: "EINVALIDCONFIG",
+        message:
+          'Plugin option "replacements[0].regex" is not a valid regular expression',
+      }),
+    ]);
+  });
+
+  it("should reject invalid replacement templates", async () => {
+    const pluginConfig: PluginConfig = {
+      files: ["README.md"],
+      replacements: [
+        { files: ["README.md"], from: "1.0.0", to: "${unknown.value}" },
+      ],
+    };
+    const context = createMockContext();
+
+    await expect(verifyConditions(pluginConfig, context)).rejects.toThrow(
+      'Plugin option "replacements[0].to" is not a valid template',
+    );
+  });
+
+  it("should reject trailers with an invalid key", async () => {
+    const pluginConfig = {
+      files: ["dist/**"],
+      trailers: { "Release Version": "${nextRelease.version}" },
+    } as any;
+    const context = createMockContext();
+
+    expect(await getErrors(verifyConditions(pluginConfig, context))).toEqual([
+      expect.objectContaining({
+        code: "EINVALIDCONFIG",
+        message:
+          'Trailer key "Release Version" must only contain letters, digits and dashes',
+      }),
+    ]);
+  });
+
+  it("should reject invalid trailer templates", async () => {
+    const pluginConfig: PluginConfig = {
+      files: ["dist/**"],
+      trailers: { "Release-Version": "${unknown.value}" },
+    };
+    const context = createMockContext();
+
+    await expect(verifyConditions(pluginConfig, context)).rejects.toThrow(
+      'Plugin option "trailers.Release-Version" is not a valid template',
+    );
+  });
+
+  it("should require an identity to sign off commits", async () => {
+    const pluginConfig: PluginConfig = {
+      files: ["dist/**"],
+      signOff: true,
+    };
+
+    await expect(
+      verifyConditions(pluginConfig, createMockContext()),
+    ).rejects.toThrow('Plugin option "signOff" requires a committer');
+    await expect(
+      verifyConditions(
+        pluginConfig,
+        createMockContext({
+          env: {
+            GITHUB_TOKEN: "test-token",
+            GIT_COMMITTER_NAME: "Release Bot",
+            GIT_COMMITTER_EMAIL: "release@example.com",
+          },
+        }),
+      ),
+    ).resolves.toBeUndefined();
+  });
+
+  it("should throw error when ignore option is not an array", async () => {
+    const pluginConfig = {
+      files: ["dist/**"],
+      ignore: "**/*.map",
+    } as any;
+    const context = createMockContext();
+
+    await expect(verifyConditions(pluginConfig, context)).rejects.toThrow(
+      'ignore" must be an array',
+    );
+  });
+
+  it("should throw error when forceBinary option is not an array", async () => {
+    const pluginConfig = {
+      files: ["dist/**"],
+      forceBinary: "*.wasm",
+    } as any;
+    const context = createMockContext();
+
+    await expect(verifyConditions(pluginConfig, context)).rejects.toThrow(
+      'forceBinary" must be an array',
+    );
+  });
+
+  it("should throw error when maxConcurrency is not a positive integer", async () => {
+    const pluginConfig: PluginConfig = {
+      files: ["dist/**"],
+      maxConcurrency: 0,
+    };
+    const context = createMockContext();
+
+    await expect(verifyConditions(pluginConfig, context)).rejects.toThrow(
+      'maxConcurrency" must be a positive integer',
+    );
+  });
+
+  it("should throw error when maxRetries is negative", async () => {
+    const pluginConfig: PluginConfig = {
+      files: ["dist/**"],
+      maxRetries: -1,
+    };
+    const context = createMockContext();
+
+    await expect(verifyConditions(pluginConfig, context)).rejects.toThrow(
+      'maxRetries" must be a non-negative integer',
+    );
+  });
+
+  it("should accept templates using the full release context", async () => {
+    const pluginConfig: PluginConfig = {
+      files: ["dist/**"],
+      commitMessage:
+        "chore(release): ${nextRelease.version} on ${branch.name} (${commits.length} commits) [skip ci]",
+    };
+    const context = createMockContext({
+      branch: { name: "main" },
+    });
+
+    await expect(
+      verifyConditions(pluginConfig, context),
+    ).resolves.toBeUndefined();
+  });
+
+  it("should accept several commits instead of files", async () => {
+    const pluginConfig: PluginConfig = {
+      commits: [
+        { files: ["CHANGELOG.md"], message: "chore: ${nextRelease.version}" },
+        {
+          files: ["dist/**"],
+          message: "build: artifacts",
+          author: { name: "Build Bot", email: "build@example.com" },
+        },
+      ],
+    };
+    const context = createMockContext();
+
+    await expect(
+      verifyConditions(pluginConfig, context),
+    ).resolves.toBeUndefined();
+  });
+
+  it.each([
+    [
+      { files: ["dist/**"], commits: [{ files: ["a"], message: "m" }] },
+      'Plugin options "files" and "commits" cannot be used together',
+    ],
+    [{ commits: [] }, 'Plugin option "commits" must be a non-empty array'],
+    [
+      { commits: [{ files: ["a"], message: "" }] },
+      'Plugin option "commits[0].message" must be a non-empty string',
+    ],
+    [
+      { commits: [{ files: ["a"], message: "m", author: { name: "Bot" } }] },
+      'Plugin option "commits[0].author" must have a name and an email',
+    ],
+    [
+      { commits: [{ files: ["a"], message: "${unknown.value}" }] },
+      'Plugin option "commits[0].message" is not a valid template',
+    ],
+    [
+      {
+        commits: [
+          {
+            files: ["a", { path: "VERSION", content: "${unknown.value}" }],
+            message: "m",
+          },
+        ],
+      },
+      'Plugin option "commits[0].files[1].content" is not a valid template',
+    ],
+  ])("should reject invalid commits %j", async (config, message) => {
+    const context = createMockContext();
+
+    expect(
+      await getErrors(verifyConditions(config as PluginConfig, context)),
+    ).toEqual([expect.objectContaining({ code: "EINVALIDCONFIG", message })]);
+  });
+
+  it("should throw ENOFILES when a commit has no files", async () => {
+    const pluginConfig = {
+      commits: [{ files: [], message: "chore: release" }],
+    } as PluginConfig;
+    const context = createMockContext();
+
+    expect(await getErrors(verifyConditions(pluginConfig, context))).toEqual([
+      expect.objectContaining({ code: "ENOFILES" }),
+    ]);
+  });
+
+  it("should warn when several commits are squashed by the pull request", async () => {
+    const pluginConfig: PluginConfig = {
+      commits: [
+        { files: ["CHANGELOG.md"], message: "chore: changelog" },
+        { files: ["dist/**"], message: "build: artifacts" },
+      ],
+      mode: "pull-request",
+    };
+    const context = createMockContext();
+
+    await verifyConditions(pluginConfig, context);
+
+    expect(context.logger.warn).toHaveBeenCalledWith(
+      expect.stringContaining("squashed into one"),
+    );
+  });
+
+  it("should throw EINVALIDCONFIG when two files are mapped to the same path", async () => {
+    const pluginConfig: PluginConfig = {
+      files: [
+        { from: "build/openapi.json", to: "docs/api/" },
+        { from: "openapi.json", to: "docs/api/openapi.json" },
+      ],
+    };
+    const context = createMockContext();
+
+    expect(await getErrors(verifyConditions(pluginConfig, context))).toEqual([
+      expect.objectContaining({
+        code: "EINVALIDCONFIG",
+        details: "docs/api/openapi.json (build/openapi.json, openapi.json)",
+      }),
+    ]);
+  });
+
+  it("should throw EINVALIDCONFIG when commitMessage has a syntax error", async () => {
+    const pluginConfig: PluginConfig = {
+      files: ["dist/**"],
+      commitMessage: "<% if (nextRelease.channel) { %>chore(release): beta",
+    };
+    const context = createMockContext();
+
+    await expect(verifyConditions(pluginConfig, context)).rejects.toMatchObject(
+      {
+        code: "EINVALIDCONFIG",
+        message: 'Plugin option "commitMessage" is not a valid template',
+      },
+    );
+  });
+
+  it("should throw EINVALIDCONFIG when commitMessage uses unknown variables", async () => {
+    const pluginConfig: PluginConfig = {
+      files: ["dist/**"],
+      commitMessage: "chore(release): ${nextRelese.version}",
+    };
+    const context = createMockContext();
+
+    await expect(verifyConditions(pluginConfig, context)).rejects.toMatchObject(
+      {
+        code: "EINVALIDCONFIG",
+        details: expect.stringContaining("nextRelese"),
+      },
+    );
+  });
+
+  it("should throw error when mode is invalid", async () => {
+    const pluginConfig = {
+      files: ["dist/**"],
+      mode: "pr",
+    } as any;
+    const context = createMockContext();
+
+    await expect(verifyConditions(pluginConfig, context)).rejects.toThrow(
+      'mode" must be one of: push, pull-request',
+    );
+  });
+
+  it("should throw error when api is invalid", async () => {
+    const pluginConfig = {
+      files: ["dist/**"],
+      api: "soap",
+    } as any;
+    const context = createMockContext();
+
+    await expect(verifyConditions(pluginConfig, context)).rejects.toThrow(
+      'api" must be one of: rest, graphql',
+    );
+  });
+
   it("should throw error when repository URL is missing", async () => {
     const pluginConfig: PluginConfig = {
       files: ["dist/**"],
@@ -140,4 +534,141 @@ describe("verifyConditions", () => {
       expect.stringContaining("branch: main"),
     );
   });
+
+  describe("remote checks", () => {
+    const pluginConfig: PluginConfig = {
+      files: ["dist/**"],
+    };
+
+    it("should check the repository and branch with the token", async () => {
+      const context = createMockContext();
+
+      await verifyConditions(pluginConfig, context);
+
+      expect(GitHubClient).toHaveBeenCalledWith(
+        "test-token",
+        undefined,
+        expect.any(Object),
+      );
+      expect(mockGitHubClient.getRepository).toHaveBeenCalledWith(
+        expect.objectContaining({
+          owner: "owner",
+          repo: "repo",
+          branch: "main",
+        }),
+      );
+      expect(mockGitHubClient.getBranch).toHaveBeenCalled();
+      expect(context.logger.warn).not.toHaveBeenCalled();
+    });
+
+    it("should fail when the repository is not accessible", async () => {
+      mockGitHubClient.getRepository.mockRejectedValue(
+        createError("ENOREPO", "Repository owner/repo not found"),
+      );
+
+      await expect(
+        verifyConditions(pluginConfig, createMockContext()),
+      ).rejects.toMatchObject({ code: "ENOREPO" });
+    });
+
+    it("should fail when the branch does not exist", async () => {
+      mockGitHubClient.getBranch.mockRejectedValue(
+        createError("ENOBRANCH", "Branch main does not exist"),
+      );
+
+      await expect(
+        verifyConditions(pluginConfig, createMockContext()),
+      ).rejects.toMatchObject({ code: "ENOBRANCH" });
+    });
+
+    it("should fail when the token cannot push", async () => {
+      mockGitHubClient.getRepository.mockResolvedValue({
+        fullName: "owner/repo",
+        archived: false,
+        permissions: { admin: false, push: false },
+      });
+
+      await expect(
+        verifyConditions(pluginConfig, createMockContext()),
+      ).rejects.toMatchObject({
+        code: "EGHNOPERMISSION",
+        message:
+          "The GitHub token does not have push permission on owner/repo",
+      });
+    });
+
+    it("should accept tokens without user permissions", async () => {
+      mockGitHubClient.getRepository.mockResolvedValue({
+        fullName: "owner/repo",
+        archived: false,
+      });
+
+      await expect(
+        verifyConditions(pluginConfig, createMockContext()),
+      ).resolves.toBeUndefined();
+    });
+
+    it("should warn when a ruleset blocks the push without bypass", async () => {
+      const context = createMockContext();
+      mockGitHubClient.getBranchRules.mockResolvedValue([
+        { type: "deletion", rulesetId: 1 },
+        { type: "pull_request", rulesetId: 2 },
+        { type: "required_status_checks", rulesetId: 2 },
+        { type: "update", rulesetId: 3 },
+      ]);
+      mockGitHubClient.getRulesetBypass.mockImplementation(
+        async (_repo: any, id: number) => (id === 3 ? "always" : "never"),
+      );
+
+      await verifyConditions(pluginConfig, context);
+
+      expect(mockGitHubClient.getRulesetBypass).toHaveBeenCalledTimes(2);
+      expect(context.logger.warn).toHaveBeenCalledTimes(1);
+      expect(context.logger.warn).toHaveBeenCalledWith(
+        expect.stringContaining(
+          "Ruleset 2 blocks direct commits to main (pull_request, required_status_checks)",
+        ),
+      );
+    });
+
+    it("should warn when the branch is protected", async () => {
+      const context = createMockContext();
+      mockGitHubClient.getBranch.mockResolvedValue({
+        name: "main",
+        sha: "abc123",
+        protected: true,
+      });
+
+      await verifyConditions(pluginConfig, context);
+
+      expect(context.logger.warn).toHaveBeenCalledWith(
+        expect.stringContaining("Branch main is protected"),
+      );
+    });
+
+    it("should not check rules in pull-request mode", async () => {
+      const context = createMockContext();
+
+      await verifyConditions(
+        { ...pluginConfig, mode: "pull-request" },
+        context,
+      );
+
+      expect(mockGitHubClient.getBranchRules).not.toHaveBeenCalled();
+    });
+
+    it("should only warn when rulesets cannot be read", async () => {
+      const context = createMockContext();
+      mockGitHubClient.getBranchRules.mockRejectedValue(
+        createError("EGHAPI", "Failed to get rules of branch main"),
+      );
+
+      await expect(
+        verifyConditions(pluginConfig, context),
+      ).resolves.toBeUndefined();
+      expect(context.logger.warn).toHaveBeenCalledWith(
+        "Could not check the rulesets of branch main: Failed to get rules of branch main",
+      );
+    });
+  });
 });